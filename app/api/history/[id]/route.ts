@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScanStore } from '@/lib/storage';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const scan = await getScanStore().get(params.id);
+
+    // Scans made through the API belong to their key and are only served by /api/v1/scans
+    if (!scan || scan.owner) {
+      return NextResponse.json(
+        { error: 'Scan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(scan);
+  } catch (error) {
+    console.error('Error loading saved scan:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatIssues, parseJsonBody } from '@/lib/api/schema';
+import { diffScansRequestSchema } from '@/lib/api/schemas';
+import { diffScans } from '@/lib/diff';
+import { getScanStore } from '@/lib/storage';
+import type { ScanResult } from '@/lib/types';
+
+// Each side of a diff is either the id of a saved scan or a full scan result
+async function resolveScan(value: string | ScanResult): Promise<ScanResult | null> {
+  if (typeof value === 'string') {
+    const scan = await getScanStore().get(value);
+    return scan && !scan.owner ? scan.result : null;
+  }
+  return value;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = await parseJsonBody(request, diffScansRequestSchema);
+
+    if (!input.success) {
+      return NextResponse.json(
+        { error: `Invalid request - ${formatIssues(input.issues)}` },
+        { status: 400 }
+      );
+    }
+
+    const [before, after] = await Promise.all([resolveScan(input.data.from), resolveScan(input.data.to)]);
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: 'Both "from" and "to" must be a saved scan id or a scan result' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(diffScans(before, after));
+  } catch (error) {
+    console.error('Error comparing scans:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
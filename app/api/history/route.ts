@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScanStore } from '@/lib/storage';
+
+// List the saved scans of one bio page, newest first
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get('url')?.trim();
+
+  if (!url) {
+    return NextResponse.json(
+      { error: 'URL is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ scans: await getScanStore().list(url) });
+  } catch (error) {
+    console.error('Error loading scan history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestOwner, toPublicMonitor } from '@/lib/monitor';
+import { getMonitorStore } from '@/lib/storage';
+
+// The monitor with this id, if it belongs to the request's management token. Other owners'
+// monitors are reported as missing, so ids can't be probed.
+async function ownedMonitor(request: NextRequest, id: string) {
+  const owner = requestOwner(request);
+  const monitor = owner ? await getMonitorStore().get(id) : null;
+  return monitor && monitor.owner === owner ? monitor : null;
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const monitor = await ownedMonitor(request, params.id);
+
+    if (!monitor) {
+      return NextResponse.json(
+        { error: 'Monitor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toPublicMonitor(monitor));
+  } catch (error) {
+    console.error('Error loading monitor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Stop monitoring a bio page
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!(await ownedMonitor(request, params.id)) || !(await getMonitorStore().delete(params.id))) {
+      return NextResponse.json(
+        { error: 'Monitor not found' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting monitor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
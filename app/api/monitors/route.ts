@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clientIp } from '@/lib/api/handler';
+import { RateLimiter } from '@/lib/api/rate-limit';
+import { formatIssues } from '@/lib/api/schema';
+import { scanOptionsSchema } from '@/lib/api/schemas';
+import {
+  createMonitor,
+  createMonitorToken,
+  MAX_INTERVAL_MINUTES,
+  MAX_MONITORS,
+  MAX_MONITORS_PER_OWNER,
+  MIN_INTERVAL_MINUTES,
+  monitorOwner,
+  requestOwner,
+  toPublicMonitor,
+} from '@/lib/monitor';
+import { resolveScanOptions } from '@/lib/scan-options';
+import { getMonitorStore } from '@/lib/storage';
+import { isValidUrl } from '@/lib/url';
+
+// Monitors one client address may create per hour, so a new token per request doesn't get around the per-owner cap
+const createLimiter = new RateLimiter(10, 60 * 60 * 1000);
+
+// List the monitors belonging to the request's management token, optionally only those watching one bio page
+export async function GET(request: NextRequest) {
+  const owner = requestOwner(request);
+  if (!owner) {
+    return NextResponse.json(
+      { error: 'A monitor management token is required' },
+      { status: 401 }
+    );
+  }
+
+  const url = request.nextUrl.searchParams.get('url')?.trim();
+
+  try {
+    const monitors = (await getMonitorStore().list()).filter(monitor => monitor.owner === owner && (!url || monitor.url === url));
+    return NextResponse.json({ monitors: monitors.map(toPublicMonitor) });
+  } catch (error) {
+    console.error('Error loading monitors:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Register a bio page for recurring checks. Without a management token a new one is issued and
+// returned once, alongside the monitor; sending it later adds monitors under the same owner.
+export async function POST(request: NextRequest) {
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+    const { url, intervalMinutes, webhookUrl, options } = body ?? {};
+
+    if (!url || typeof url !== 'string' || !isValidUrl(url)) {
+      return NextResponse.json(
+        { error: 'A valid URL is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof intervalMinutes !== 'number' ||
+      !Number.isInteger(intervalMinutes) ||
+      intervalMinutes < MIN_INTERVAL_MINUTES ||
+      intervalMinutes > MAX_INTERVAL_MINUTES
+    ) {
+      return NextResponse.json(
+        { error: `Interval must be a whole number of minutes between ${MIN_INTERVAL_MINUTES} and ${MAX_INTERVAL_MINUTES}` },
+        { status: 400 }
+      );
+    }
+
+    if (webhookUrl !== undefined && webhookUrl !== '' && (typeof webhookUrl !== 'string' || !/^https?:\/\//i.test(webhookUrl) || !isValidUrl(webhookUrl))) {
+      return NextResponse.json(
+        { error: 'Webhook URL must be an http or https URL' },
+        { status: 400 }
+      );
+    }
+
+    const parsedOptions = scanOptionsSchema.parse(options ?? {});
+    if (!parsedOptions.success) {
+      return NextResponse.json(
+        { error: `Invalid options - ${formatIssues(parsedOptions.issues)}` },
+        { status: 400 }
+      );
+    }
+    const scanOptions = resolveScanOptions(parsedOptions.data);
+    if ('error' in scanOptions) {
+      return NextResponse.json(
+        { error: `Invalid options - ${scanOptions.error}` },
+        { status: 400 }
+      );
+    }
+
+    let token: string | undefined;
+    let owner = requestOwner(request);
+    if (!owner) {
+      token = createMonitorToken();
+      owner = monitorOwner(token);
+    }
+
+    const monitors = await getMonitorStore().list();
+    if (monitors.filter(monitor => monitor.owner === owner).length >= MAX_MONITORS_PER_OWNER) {
+      return NextResponse.json(
+        { error: `Too many monitors - at most ${MAX_MONITORS_PER_OWNER} can be registered at once` },
+        { status: 429 }
+      );
+    }
+    if (monitors.length >= MAX_MONITORS) {
+      return NextResponse.json(
+        { error: 'No more monitors can be registered on this server right now' },
+        { status: 429 }
+      );
+    }
+    if (!createLimiter.take(clientIp(request)).allowed) {
+      return NextResponse.json(
+        { error: 'Too many monitors created from this address - try again later' },
+        { status: 429 }
+      );
+    }
+
+    const monitor = await createMonitor(url.trim(), intervalMinutes, webhookUrl || undefined, owner, scanOptions.options);
+    return NextResponse.json({ ...toPublicMonitor(monitor), token }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating monitor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
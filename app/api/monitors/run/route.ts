@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueMonitors } from '@/lib/monitor';
+
+// Runs due monitors for deployments without a long-running server; point an external cron at it.
+// When CLEAROUT_CRON_SECRET is set the request must send it as a bearer token.
+export async function POST(request: NextRequest) {
+  const secret = process.env.CLEAROUT_CRON_SECRET;
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ ran: await runDueMonitors() });
+  } catch (error) {
+    console.error('Error running monitors:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clientIp } from '@/lib/api/handler';
+import { RateLimiter } from '@/lib/api/rate-limit';
+import { formatIssues, parseJsonBody } from '@/lib/api/schema';
+import { shareReportRequestSchema } from '@/lib/api/schemas';
+import { MAX_REPORT_BYTES, MAX_REPORT_LINKS, MAX_REPORTS } from '@/lib/reports';
+import { getReportStore } from '@/lib/storage';
+import { summarize } from '@/lib/summary';
+
+// Reports one client address may share per hour
+const shareLimiter = new RateLimiter(20, 60 * 60 * 1000);
+
+// Publish a scan result as a read-only report at /report/[id]
+export async function POST(request: NextRequest) {
+  try {
+    const input = await parseJsonBody(request, shareReportRequestSchema);
+
+    if (!input.success) {
+      return NextResponse.json(
+        { error: `Invalid report - ${formatIssues(input.issues)}` },
+        { status: 400 }
+      );
+    }
+
+    const { result, url, expiresInDays } = input.data;
+
+    if (result.links.length > MAX_REPORT_LINKS) {
+      return NextResponse.json(
+        { error: `A report can hold at most ${MAX_REPORT_LINKS} checked links` },
+        { status: 400 }
+      );
+    }
+
+    // Counts are recomputed rather than trusted, so the summary always matches the links shown
+    const summary = summarize(result.links);
+    if (JSON.stringify(summary).length > MAX_REPORT_BYTES) {
+      return NextResponse.json(
+        { error: `Report is too large - shared reports are limited to ${MAX_REPORT_BYTES / 1024 / 1024} MB` },
+        { status: 413 }
+      );
+    }
+
+    // Expired reports only count until they're deleted, so clear them out before turning anyone away
+    const store = getReportStore();
+    let stored = await store.count();
+    if (stored >= MAX_REPORTS) {
+      stored -= await store.deleteExpired();
+    }
+    if (stored >= MAX_REPORTS) {
+      return NextResponse.json(
+        { error: 'No more reports can be shared on this server right now' },
+        { status: 429 }
+      );
+    }
+    if (!shareLimiter.take(clientIp(request)).allowed) {
+      return NextResponse.json(
+        { error: 'Too many reports shared from this address - try again later' },
+        { status: 429 }
+      );
+    }
+
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : undefined;
+    const report = await store.save(summary, url, expiresAt);
+
+    return NextResponse.json(
+      { id: report.id, path: `/report/${report.id}`, expiresAt: report.expiresAt },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error sharing report:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
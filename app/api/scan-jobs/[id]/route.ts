@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelScanJob, getScanJob } from '@/lib/jobs';
+
+// Report progress: checked/total and the links checked so far
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const job = getScanJob(params.id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Scan job not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+// Cancel a running scan, aborting its in-flight link checks
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  if (!cancelScanJob(params.id)) {
+    return NextResponse.json(
+      { error: 'Scan job not found' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatIssues, parseJsonBody } from '@/lib/api/schema';
+import { scanJobRequestSchema, toScanInput } from '@/lib/api/schemas';
+import { startScanJob } from '@/lib/jobs';
+import { resolveScanOptions } from '@/lib/scan-options';
+
+// Start a scan in the background; the client polls /api/scan-jobs/:id for progress
+export async function POST(request: NextRequest) {
+  try {
+    const input = await parseJsonBody(request, scanJobRequestSchema);
+
+    if (!input.success) {
+      return NextResponse.json(
+        { error: `Invalid request - ${formatIssues(input.issues)}` },
+        { status: 400 }
+      );
+    }
+
+    const scanInput = toScanInput(input.data);
+    if (!scanInput) {
+      return NextResponse.json(
+        { error: 'Provide exactly one of url, html, links or sitemap; crawl requires url' },
+        { status: 400 }
+      );
+    }
+
+    const scanOptions = resolveScanOptions(input.data.options);
+    if ('error' in scanOptions) {
+      return NextResponse.json(
+        { error: `Invalid options - ${scanOptions.error}` },
+        { status: 400 }
+      );
+    }
+
+    const id = startScanJob({ ...scanInput, scanOptions: scanOptions.options }, { save: input.data.save });
+    return NextResponse.json({ id }, { status: 202 });
+  } catch (error) {
+    console.error('Error starting scan job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,224 +1,191 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { load } from 'cheerio';
-
-interface LinkResult {
-  originalUrl: string;
-  finalUrl: string;
-  status: number;
-  statusText: string;
-  isWorking: boolean;
-  isRedirect: boolean;
-  responseTime: number;
+import { formatIssues, parseJsonBody } from '@/lib/api/schema';
+import { scanLinksRequestSchema, toScanInput } from '@/lib/api/schemas';
+import { exportScan, type ExportFormat } from '@/lib/export';
+import type { ExtractedLink, ExtractOptions } from '@/lib/extractors';
+import { inputUrl, loadLinks } from '@/lib/inputs';
+import { resolveScanOptions, type ScanOptions } from '@/lib/scan-options';
+import { checkLinks, MAX_BATCH_PAGES, scanBatch } from '@/lib/scanner';
+import { summarize } from '@/lib/summary';
+import type { BatchScanEvent, BatchScanResult, ScanEvent, ScanResult } from '@/lib/types';
+import { saveToHistory } from '@/lib/storage';
+
+// Save every page of a batch that could be fetched as its own history entry
+async function saveBatch(result: BatchScanResult): Promise<void> {
+  for (const page of result.pages) {
+    if (!page.error) {
+      const { url, error, ...scan } = page;
+      await saveToHistory(url, scan);
+    }
+  }
 }
 
-interface ScanResult {
-  totalLinks: number;
-  workingLinks: number;
-  brokenLinks: number;
-  redirects: number;
-  links: LinkResult[];
+// Stream events as NDJSON so the client can render rows while the scan is running. When the
+// client goes away the stream is cancelled, which aborts the scan's in-flight checks.
+function streamEvents<T>(
+  run: (send: (event: T | { type: 'error'; error: string }) => void, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T | { type: 'error'; error: string }) => {
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        }
+      };
+
+      try {
+        await run(send, abortController.signal);
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Error streaming link results:', error);
+          send({ type: 'error', error: 'Internal server error' });
+        }
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
 }
 
-// Helper function to check if URL is valid
-function isValidUrl(string: string): boolean {
-  try {
-    new URL(string);
-    return true;
-  } catch (_) {
-    return false;
-  }
+function streamScan(url: string | undefined, extractedLinks: ExtractedLink[], save: boolean, options: ScanOptions): Response {
+  return streamEvents<ScanEvent>(async (send, signal) => {
+    send({ type: 'start', totalLinks: extractedLinks.length });
+    const linkResults = await checkLinks(extractedLinks, (index, link) => {
+      send({ type: 'link', index, link });
+    }, signal, options);
+    const result = summarize(linkResults);
+    const savedScanId = save && url ? await saveToHistory(url, result) : undefined;
+    send({ type: 'summary', result, savedScanId });
+  });
 }
 
-// Helper function to normalize URL
-function normalizeUrl(url: string, baseUrl?: string): string {
-  try {
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-      return url;
-    }
-    if (url.startsWith('//')) {
-      return 'https:' + url;
-    }
-    if (url.startsWith('/')) {
-      if (baseUrl) {
-        const base = new URL(baseUrl);
-        return base.origin + url;
-      }
-      return url;
-    }
-    if (baseUrl) {
-      return new URL(url, baseUrl).href;
+function streamBatch(urls: string[], save: boolean, extract: ExtractOptions, options: ScanOptions): Response {
+  return streamEvents<BatchScanEvent>(async (send, signal) => {
+    const result = await scanBatch(urls, send, signal, extract, options);
+    if (save) {
+      await saveBatch(result);
     }
-    return 'https://' + url;
-  } catch {
-    return url;
-  }
+    send({ type: 'summary', result });
+  });
 }
 
-// Function to check a single link
-async function checkLink(url: string): Promise<LinkResult> {
-  const startTime = Date.now();
-  
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(url, {
-      method: 'HEAD',
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'ClearOut.bio Link Checker 1.0',
-      },
-      redirect: 'follow',
-    });
-
-    clearTimeout(timeoutId);
-    const responseTime = Date.now() - startTime;
-
-    const isRedirect = response.url !== url;
-    const isWorking = response.status >= 200 && response.status < 400;
-
-    return {
-      originalUrl: url,
-      finalUrl: response.url || url,
-      status: response.status,
-      statusText: response.statusText || getStatusText(response.status),
-      isWorking,
-      isRedirect,
-      responseTime,
-    };
-  } catch (error) {
-    const responseTime = Date.now() - startTime;
-    
-    return {
-      originalUrl: url,
-      finalUrl: url,
-      status: 0,
-      statusText: error instanceof Error ? error.message : 'Network Error',
-      isWorking: false,
-      isRedirect: false,
-      responseTime,
-    };
+// Accepts a list of bio page URLs in one job
+async function handleBatch(
+  urls: string[],
+  stream: boolean,
+  save: boolean,
+  extract: ExtractOptions,
+  options: ScanOptions
+): Promise<Response> {
+  const uniqueUrls = Array.from(new Set(urls.map(url => url.trim()).filter(Boolean)));
+
+  if (uniqueUrls.length > MAX_BATCH_PAGES) {
+    return NextResponse.json(
+      { error: `Too many pages - a batch can contain at most ${MAX_BATCH_PAGES} URLs` },
+      { status: 400 }
+    );
   }
-}
 
-// Helper function to get status text
-function getStatusText(status: number): string {
-  const statusTexts: { [key: number]: string } = {
-    200: 'OK',
-    201: 'Created',
-    301: 'Moved Permanently',
-    302: 'Found',
-    304: 'Not Modified',
-    400: 'Bad Request',
-    401: 'Unauthorized',
-    403: 'Forbidden',
-    404: 'Not Found',
-    500: 'Internal Server Error',
-    502: 'Bad Gateway',
-    503: 'Service Unavailable',
-  };
-  
-  return statusTexts[status] || 'Unknown';
+  if (stream) {
+    return streamBatch(uniqueUrls, save, extract, options);
+  }
+
+  const result = await scanBatch(uniqueUrls, () => {}, undefined, extract, options);
+  if (save) {
+    await saveBatch(result);
+  }
+
+  return NextResponse.json(result);
 }
 
-// Function to extract links from HTML
-function extractLinks(html: string, baseUrl: string): string[] {
-  const $ = load(html);
-  const links: string[] = [];
-  
-  $('a[href]').each((_, element) => {
-    const href = $(element).attr('href');
-    if (href) {
-      const normalizedUrl = normalizeUrl(href, baseUrl);
-      if (isValidUrl(normalizedUrl) && !normalizedUrl.startsWith('mailto:') && !normalizedUrl.startsWith('tel:')) {
-        // Avoid duplicate links
-        if (!links.includes(normalizedUrl)) {
-          links.push(normalizedUrl);
-        }
-      }
-    }
+// Return a scan in one of the export formats as a file download
+function exportResponse(result: ScanResult, format: ExportFormat): Response {
+  const file = exportScan(result, format);
+
+  return new Response(file.content, {
+    headers: {
+      'Content-Type': `${file.mimeType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+    },
   });
-  
-  return links;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
+    const input = await parseJsonBody(request, scanLinksRequestSchema);
 
-    if (!url || typeof url !== 'string') {
+    if (!input.success) {
       return NextResponse.json(
-        { error: 'URL is required' },
+        { error: `Invalid request - ${formatIssues(input.issues)}` },
         { status: 400 }
       );
     }
 
-    if (!isValidUrl(url)) {
+    const { urls, stream, format, save, resources } = input.data;
+
+    const scanOptions = resolveScanOptions(input.data.options);
+    if ('error' in scanOptions) {
       return NextResponse.json(
-        { error: 'Invalid URL format' },
+        { error: `Invalid options - ${scanOptions.error}` },
         { status: 400 }
       );
     }
+    const { options } = scanOptions;
 
-    // Fetch the HTML content of the provided URL
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'ClearOut.bio Link Checker 1.0',
-      },
-    });
-
-    clearTimeout(timeoutId);
+    if (urls) {
+      return handleBatch(urls, stream === true, save === true, {
+        includeResources: resources,
+        includeContactLinks: options.validateContactLinks,
+      }, options);
+    }
 
-    if (!response.ok) {
+    const scanInput = toScanInput(input.data);
+    if (!scanInput) {
       return NextResponse.json(
-        { error: `Failed to fetch URL: ${response.status} ${response.statusText}` },
+        { error: 'Provide exactly one of url, urls, html, links or sitemap; crawl requires url' },
         { status: 400 }
       );
     }
 
-    const html = await response.text();
-    const extractedLinks = extractLinks(html, url);
-
-    if (extractedLinks.length === 0) {
-      return NextResponse.json({
-        totalLinks: 0,
-        workingLinks: 0,
-        brokenLinks: 0,
-        redirects: 0,
-        links: [],
-      });
-    }
+    const loaded = await loadLinks({ ...scanInput, scanOptions: options });
 
-    // Check all links concurrently with a reasonable limit
-    const maxConcurrent = 10;
-    const linkResults: LinkResult[] = [];
-    
-    for (let i = 0; i < extractedLinks.length; i += maxConcurrent) {
-      const batch = extractedLinks.slice(i, i + maxConcurrent);
-      const batchResults = await Promise.all(
-        batch.map(link => checkLink(link))
+    if ('error' in loaded) {
+      return NextResponse.json(
+        { error: loaded.error },
+        { status: loaded.status }
       );
-      linkResults.push(...batchResults);
     }
 
-    // Calculate statistics
-    const workingLinks = linkResults.filter(link => link.isWorking && !link.isRedirect).length;
-    const redirects = linkResults.filter(link => link.isRedirect && link.isWorking).length;
-    const brokenLinks = linkResults.filter(link => !link.isWorking).length;
+    const url = inputUrl(scanInput);
+
+    if (stream === true && !format) {
+      return streamScan(url, loaded.links, save === true, options);
+    }
 
-    const result: ScanResult = {
-      totalLinks: linkResults.length,
-      workingLinks,
-      brokenLinks,
-      redirects,
-      links: linkResults,
-    };
+    const linkResults = await checkLinks(loaded.links, () => {}, undefined, options);
+    const result = summarize(linkResults);
+    const savedScanId = save === true && url ? await saveToHistory(url, result) : undefined;
+
+    if (format) {
+      return exportResponse(result, format);
+    }
 
-    return NextResponse.json(result);
+    return NextResponse.json({ ...result, savedScanId });
 
   } catch (error) {
     console.error('Error scanning links:', error);
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api/handler';
+import { apiError } from '@/lib/api/responses';
+import { getScanStore } from '@/lib/storage';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return withApiKey(request, async key => {
+    const scan = await getScanStore().get(params.id);
+
+    // Another key's scan is reported as missing rather than forbidden so ids can't be probed
+    if (!scan || scan.owner !== key.id) {
+      return apiError(404, 'not_found', 'Scan not found');
+    }
+
+    return NextResponse.json(scan);
+  });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api/handler';
+import { apiError } from '@/lib/api/responses';
+import { formatIssues } from '@/lib/api/schema';
+import { createScanRequestSchema } from '@/lib/api/schemas';
+import { resolveScanOptions } from '@/lib/scan-options';
+import { scanPage } from '@/lib/scanner';
+import { getScanStore } from '@/lib/storage';
+
+// Scan a bio page and keep the result so it can be fetched again by id
+export async function POST(request: NextRequest) {
+  return withApiKey(request, async key => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(400, 'invalid_json', 'Request body must be valid JSON');
+    }
+
+    const input = createScanRequestSchema.parse(body);
+    if (!input.success) {
+      return apiError(400, 'invalid_request', formatIssues(input.issues), input.issues);
+    }
+
+    const scanOptions = resolveScanOptions(input.data.options);
+    if ('error' in scanOptions) {
+      return apiError(400, 'invalid_request', `Invalid options - ${scanOptions.error}`);
+    }
+
+    const scan = await scanPage(input.data.url, {}, scanOptions.options);
+    if ('error' in scan) {
+      return scan.status === 408
+        ? apiError(504, 'page_timeout', scan.error)
+        : apiError(422, 'page_fetch_failed', scan.error);
+    }
+
+    const saved = await getScanStore().save(input.data.url, scan.result, key.id);
+    return NextResponse.json(saved, {
+      status: 201,
+      headers: { Location: `/api/v1/scans/${saved.id}` },
+    });
+  });
+}
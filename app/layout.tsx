@@ -5,6 +5,8 @@ import { Inter } from 'next/font/google';
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
+  // Link previews need absolute URLs; CLEAROUT_PUBLIC_URL is where the app is reachable
+  metadataBase: process.env.CLEAROUT_PUBLIC_URL ? new URL(process.env.CLEAROUT_PUBLIC_URL) : undefined,
   title: 'ClearOut.bio - Clean Your Bio Page Links Instantly',
   description: 'Scan your Linktree, bio page, or any URL to find and remove broken links. Export clean links instantly. No signup required.',
 };
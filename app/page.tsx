@@ -1,103 +1,287 @@
 'use client';
 
-import { useState } from 'react';
-import { CheckCircle, XCircle, AlertTriangle, ExternalLink, Download, Loader2, Sparkles, Link as LinkIcon, Globe, Shield } from 'lucide-react';
-
-interface LinkResult {
-  originalUrl: string;
-  finalUrl: string;
-  status: number;
-  statusText: string;
-  isWorking: boolean;
-  isRedirect: boolean;
-  responseTime: number;
+import { useRef, useState } from 'react';
+import { CheckCircle, AlertTriangle, Download, Loader2, Sparkles, Link as LinkIcon, Globe, Shield, Upload, XCircle } from 'lucide-react';
+import AdvancedOptions from '@/components/AdvancedOptions';
+import BatchResults from '@/components/BatchResults';
+import BrokenByKind from '@/components/BrokenByKind';
+import HealthIssues from '@/components/HealthIssues';
+import LinkEditor from '@/components/LinkEditor';
+import ResultsTable from '@/components/ResultsTable';
+import SafetyFlags from '@/components/SafetyFlags';
+import SummaryCards from '@/components/SummaryCards';
+import MonitorForm from '@/components/MonitorForm';
+import ScanHistory from '@/components/ScanHistory';
+import ShareReport from '@/components/ShareReport';
+import { downloadFile } from '@/lib/download';
+import { EXPORT_FORMATS, exportScan, type ExportFormat } from '@/lib/export';
+import type { ScanJobSnapshot } from '@/lib/jobs';
+import { DEFAULT_SCAN_OPTIONS, type ScanOptions } from '@/lib/scan-options';
+import { summarizeBatch } from '@/lib/summary';
+import type { BatchPage, BatchScanEvent, BatchScanResult, LinkCheck, ScanResult } from '@/lib/types';
+import { parseUrlList } from '@/lib/url';
+
+type ScanMode = 'single' | 'batch' | 'html' | 'links' | 'sitemap';
+type ResultsView = 'report' | 'editor';
+
+// Body fields of a scan job request, one input per tab
+interface JobInput {
+  url?: string;
+  crawl?: { maxDepth: number; maxPages: number };
+  html?: string;
+  baseUrl?: string;
+  links?: string;
+  sitemap?: string;
+  resources?: boolean;
 }
 
-interface ScanResult {
-  totalLinks: number;
-  workingLinks: number;
-  brokenLinks: number;
-  redirects: number;
-  links: LinkResult[];
+// Choices offered for crawling the site behind a bio link; the server caps depth at 5 and pages at 100
+const CRAWL_DEPTHS = [1, 2, 3, 4, 5];
+const CRAWL_PAGE_LIMITS = [10, 20, 50, 100];
+
+const SCAN_MODES: { value: ScanMode; label: string; heading: string }[] = [
+  { value: 'single', label: 'Single Page', heading: 'Enter your bio page URL' },
+  { value: 'batch', label: 'Batch', heading: 'Enter bio page URLs, one per line' },
+  { value: 'html', label: 'HTML', heading: 'Paste HTML or upload a file' },
+  { value: 'links', label: 'Link List', heading: 'Paste the links to check, one per line' },
+  { value: 'sitemap', label: 'Sitemap', heading: 'Enter your sitemap.xml URL' },
+];
+
+// The editor starts over from the latest results whenever it is reopened
+const RESULTS_VIEWS: { view: ResultsView; label: string }[] = [
+  { view: 'report', label: 'Report' },
+  { view: 'editor', label: 'Edit Bio Page' },
+];
+
+// How often a running scan job is polled for progress
+const POLL_INTERVAL_MS = 1000;
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Read an NDJSON response line by line, handing each event over as it arrives
+async function readEvents<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+  if (!response.ok || !response.body) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to scan links');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line));
+      }
+    }
+
+    if (done) break;
+  }
 }
 
 export default function Home() {
+  const [mode, setMode] = useState<ScanMode>('single');
   const [url, setUrl] = useState('');
+  const [batchInput, setBatchInput] = useState('');
+  const [htmlInput, setHtmlInput] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [linksInput, setLinksInput] = useState('');
+  const [sitemapUrl, setSitemapUrl] = useState('');
+  const [shouldCrawl, setShouldCrawl] = useState(false);
+  const [checkResources, setCheckResources] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useState(2);
+  const [crawlPages, setCrawlPages] = useState(20);
+  const [batchResult, setBatchResult] = useState<BatchScanResult | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [result, setResult] = useState<ScanResult | null>(null);
   const [error, setError] = useState('');
+  const [progress, setProgress] = useState<{ checked: number; total: number } | null>(null);
+  const [saveHistory, setSaveHistory] = useState(false);
+  const [scannedUrl, setScannedUrl] = useState('');
+  // Monitors re-check a single page, so they aren't offered for sitemap scans
+  const [isPageScan, setIsPageScan] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const [resultsView, setResultsView] = useState<ResultsView>('report');
+  const [scanOptions, setScanOptions] = useState<ScanOptions>(DEFAULT_SCAN_OPTIONS);
+  const cancelScan = useRef<(() => void) | null>(null);
+
+  const batchUrls = parseUrlList(batchInput);
+  const listedLinks = parseUrlList(linksInput);
+
+  // What the scan job should check, or null when the current tab has nothing to scan yet
+  const getJobInput = (): JobInput | null => {
+    switch (mode) {
+      case 'html':
+        return htmlInput.trim() ? { html: htmlInput, ...(baseUrl.trim() ? { baseUrl: baseUrl.trim() } : {}) } : null;
+      case 'links':
+        return listedLinks.length > 0 ? { links: linksInput } : null;
+      case 'sitemap':
+        return sitemapUrl.trim() ? { sitemap: sitemapUrl.trim() } : null;
+      default:
+        if (!url.trim()) return null;
+        return shouldCrawl ? { url: url.trim(), crawl: { maxDepth: crawlDepth, maxPages: crawlPages } } : { url: url.trim() };
+    }
+  };
+
+  const canScan = mode === 'batch' ? batchUrls.length > 0 : getJobInput() !== null;
 
   const handleScan = async () => {
-    if (!url.trim()) {
-      setError('Please enter a valid URL');
+    const jobInput = getJobInput();
+    if (!jobInput) {
+      setError(mode === 'html' ? 'Please paste some HTML' : mode === 'links' ? 'Please enter at least one valid link' : 'Please enter a valid URL');
       return;
     }
 
     setIsScanning(true);
     setError('');
     setResult(null);
+    setBatchResult(null);
+    setProgress(null);
+    setWasCancelled(false);
+    setScannedUrl(jobInput.url ?? jobInput.sitemap ?? '');
+    setIsPageScan(mode === 'single');
 
     try {
-      const response = await fetch('/api/scan-links', {
+      // The scan runs as a job on the server; poll it until it finishes, fails or is cancelled
+      const response = await fetch('/api/scan-jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({ ...jobInput, save: saveHistory, resources: checkResources, options: scanOptions }),
       });
-
       const data = await response.json();
-
       if (!response.ok) {
         throw new Error(data.error || 'Failed to scan links');
       }
 
-      setResult(data);
+      const jobUrl = `/api/scan-jobs/${data.id}`;
+      cancelScan.current = () => {
+        fetch(jobUrl, { method: 'DELETE' });
+      };
+
+      while (true) {
+        await wait(POLL_INTERVAL_MS);
+        const jobResponse = await fetch(jobUrl);
+        const jobData = await jobResponse.json();
+        if (!jobResponse.ok) {
+          throw new Error(jobData.error || 'Lost track of the scan');
+        }
+
+        const job: ScanJobSnapshot = jobData;
+        if (job.status !== 'fetching') {
+          setProgress({ checked: job.checked, total: job.total });
+          setResult(job.result);
+        }
+
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Failed to scan links');
+        }
+        if (job.status === 'cancelled') {
+          setWasCancelled(true);
+          break;
+        }
+        if (job.status === 'completed') {
+          if (job.savedScanId) {
+            setHistoryVersion(version => version + 1);
+          }
+          break;
+        }
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
+      cancelScan.current = null;
       setIsScanning(false);
+      setProgress(null);
     }
   };
 
-  const exportAsHTML = () => {
-    if (!result) return;
+  const handleBatchScan = async () => {
+    if (batchUrls.length === 0) {
+      setError('Please enter at least one valid URL');
+      return;
+    }
 
-    const workingLinks = result.links.filter(link => link.isWorking);
-    const html = `<!-- Cleaned Links from ClearOut.bio -->
-<div class="bio-links">
-${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="noopener noreferrer">${link.finalUrl}</a>`).join('\n')}
-</div>`;
-
-    const blob = new Blob([html], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'cleaned-bio-links.html';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
+    setIsScanning(true);
+    setError('');
+    setResult(null);
+    setBatchResult(null);
+    setProgress(null);
+    setWasCancelled(false);
+
+    // Aborting the request cancels the stream, which stops the scan on the server
+    const controller = new AbortController();
+    cancelScan.current = () => controller.abort();
 
-  const getStatusIcon = (link: LinkResult) => {
-    if (link.isWorking && !link.isRedirect) {
-      return <CheckCircle className="w-5 h-5 text-green-500" />;
-    } else if (link.isRedirect) {
-      return <AlertTriangle className="w-5 h-5 text-yellow-500" />;
-    } else {
-      return <XCircle className="w-5 h-5 text-red-500" />;
+    try {
+      const response = await fetch('/api/scan-links', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ urls: batchUrls, stream: true, save: saveHistory, resources: checkResources, options: scanOptions }),
+        signal: controller.signal,
+      });
+
+      let pages: BatchPage[] = [];
+      const checks = new Map<string, LinkCheck>();
+      await readEvents<BatchScanEvent>(response, event => {
+        switch (event.type) {
+          case 'start':
+            pages = event.pages;
+            setProgress({ checked: 0, total: event.totalLinks });
+            setBatchResult(summarizeBatch(pages, checks));
+            break;
+          case 'check':
+            checks.set(event.url, event.check);
+            setProgress(prev => prev && { ...prev, checked: prev.checked + 1 });
+            setBatchResult(summarizeBatch(pages, checks));
+            break;
+          case 'summary':
+            setBatchResult(event.result);
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setWasCancelled(true);
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
+    } finally {
+      cancelScan.current = null;
+      setIsScanning(false);
+      setProgress(null);
     }
   };
 
-  const getStatusLabel = (link: LinkResult) => {
-    if (link.isWorking && !link.isRedirect) {
-      return <span className="text-green-600 font-medium">✅ Working</span>;
-    } else if (link.isRedirect) {
-      return <span className="text-yellow-600 font-medium">⚠️ Redirect</span>;
-    } else {
-      return <span className="text-red-600 font-medium">❌ Broken</span>;
-    }
+  const handleBatchFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setBatchInput(prev => (prev.trim() ? prev.trim() + '\n' : '') + text);
+  };
+
+  const handleHtmlFile = async (file: File | undefined) => {
+    if (!file) return;
+    setHtmlInput(await file.text());
+  };
+
+  const downloadExport = (format: ExportFormat) => {
+    if (!result) return;
+
+    downloadFile(exportScan(result, format));
   };
 
   return (
@@ -156,43 +340,283 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
             <div className="relative">
               <div className="absolute inset-0 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-2xl blur opacity-20"></div>
               <div className="relative bg-white rounded-2xl shadow-xl border border-gray-200/50 p-8">
+                <div className="flex mb-6 bg-gray-100 rounded-xl p-1">
+                  {SCAN_MODES.map(tab => (
+                    <button
+                      key={tab.value}
+                      onClick={() => setMode(tab.value)}
+                      disabled={isScanning}
+                      className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 ${
+                        mode === tab.value ? 'bg-white text-indigo-700 shadow' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+
                 <div className="flex items-center space-x-3 mb-6">
                   <Globe className="w-5 h-5 text-indigo-600" />
-                  <label htmlFor="url" className="text-lg font-semibold text-gray-900">
-                    Enter your bio page URL
+                  <label htmlFor={`${mode}-input`} className="text-lg font-semibold text-gray-900">
+                    {SCAN_MODES.find(tab => tab.value === mode)?.heading}
                   </label>
                 </div>
                 
                 <div className="space-y-4">
-                  <input
-                    id="url"
-                    type="url"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    placeholder="https://linktr.ee/yourname or any bio page URL"
-                    className="w-full px-4 py-4 text-lg border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white"
-                    disabled={isScanning}
-                  />
+                  {mode === 'single' && (
+                    <>
+                      <input
+                        id="single-input"
+                        type="url"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        placeholder="https://linktr.ee/yourname or any bio page URL"
+                        className="w-full px-4 py-4 text-lg border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white"
+                        disabled={isScanning}
+                      />
+                      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                        <label className="flex items-center space-x-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={shouldCrawl}
+                            onChange={(e) => setShouldCrawl(e.target.checked)}
+                            disabled={isScanning}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          <span>Crawl linked pages on the same site</span>
+                        </label>
+                        {shouldCrawl && (
+                          <>
+                            <select
+                              value={crawlDepth}
+                              onChange={(e) => setCrawlDepth(Number(e.target.value))}
+                              disabled={isScanning}
+                              aria-label="Crawl depth"
+                              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            >
+                              {CRAWL_DEPTHS.map(depth => (
+                                <option key={depth} value={depth}>
+                                  {depth} level{depth !== 1 ? 's' : ''} deep
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={crawlPages}
+                              onChange={(e) => setCrawlPages(Number(e.target.value))}
+                              disabled={isScanning}
+                              aria-label="Page limit"
+                              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            >
+                              {CRAWL_PAGE_LIMITS.map(limit => (
+                                <option key={limit} value={limit}>
+                                  Up to {limit} pages
+                                </option>
+                              ))}
+                            </select>
+                          </>
+                        )}
+                      </div>
+                    </>
+                  )}
+
+                  {mode === 'batch' && (
+                    <>
+                      <textarea
+                        id="batch-input"
+                        value={batchInput}
+                        onChange={(e) => setBatchInput(e.target.value)}
+                        placeholder={'https://linktr.ee/creator-one\nhttps://bio.link/creator-two'}
+                        rows={6}
+                        className="w-full px-4 py-4 text-base border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white font-mono"
+                        disabled={isScanning}
+                      />
+                      <div className="flex items-center justify-between text-sm">
+                        <label className="inline-flex items-center space-x-2 text-indigo-600 hover:text-indigo-800 cursor-pointer">
+                          <Upload className="w-4 h-4" />
+                          <span>Upload CSV or text file</span>
+                          <input
+                            type="file"
+                            accept=".csv,.txt,text/csv,text/plain"
+                            className="hidden"
+                            disabled={isScanning}
+                            onChange={(e) => {
+                              handleBatchFile(e.target.files?.[0]);
+                              e.target.value = '';
+                            }}
+                          />
+                        </label>
+                        <span className="text-gray-500">
+                          {batchUrls.length} page{batchUrls.length !== 1 ? 's' : ''} detected
+                        </span>
+                      </div>
+                    </>
+                  )}
+
+                  {mode === 'html' && (
+                    <>
+                      <textarea
+                        id="html-input"
+                        value={htmlInput}
+                        onChange={(e) => setHtmlInput(e.target.value)}
+                        placeholder={'<a href="https://example.com/shop">Shop</a>'}
+                        rows={8}
+                        className="w-full px-4 py-4 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white font-mono"
+                        disabled={isScanning}
+                      />
+                      <input
+                        type="url"
+                        value={baseUrl}
+                        onChange={(e) => setBaseUrl(e.target.value)}
+                        placeholder="Base URL for relative links (optional), e.g. https://example.com/"
+                        className="w-full px-4 py-3 text-base border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white"
+                        disabled={isScanning}
+                      />
+                      <div className="flex items-center justify-between text-sm">
+                        <label className="inline-flex items-center space-x-2 text-indigo-600 hover:text-indigo-800 cursor-pointer">
+                          <Upload className="w-4 h-4" />
+                          <span>Upload HTML file</span>
+                          <input
+                            type="file"
+                            accept=".html,.htm,text/html"
+                            className="hidden"
+                            disabled={isScanning}
+                            onChange={(e) => {
+                              handleHtmlFile(e.target.files?.[0]);
+                              e.target.value = '';
+                            }}
+                          />
+                        </label>
+                        <span className="text-gray-500">Relative links are skipped without a base URL</span>
+                      </div>
+                    </>
+                  )}
+
+                  {mode === 'links' && (
+                    <>
+                      <textarea
+                        id="links-input"
+                        value={linksInput}
+                        onChange={(e) => setLinksInput(e.target.value)}
+                        placeholder={'https://example.com/shop\nhttps://youtube.com/@yourchannel'}
+                        rows={6}
+                        className="w-full px-4 py-4 text-base border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white font-mono"
+                        disabled={isScanning}
+                      />
+                      <div className="text-right text-sm text-gray-500">
+                        {listedLinks.length} link{listedLinks.length !== 1 ? 's' : ''} detected
+                      </div>
+                    </>
+                  )}
+
+                  {mode === 'sitemap' && (
+                    <input
+                      id="sitemap-input"
+                      type="url"
+                      value={sitemapUrl}
+                      onChange={(e) => setSitemapUrl(e.target.value)}
+                      placeholder="https://example.com/sitemap.xml"
+                      className="w-full px-4 py-4 text-lg border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50 focus:bg-white"
+                      disabled={isScanning}
+                    />
+                  )}
+
+                  {mode !== 'links' && mode !== 'sitemap' && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={checkResources}
+                      onChange={(e) => setCheckResources(e.target.checked)}
+                      disabled={isScanning}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>Also check images, favicons, embeds and social preview tags</span>
+                  </label>
+                  )}
+
+                  {mode !== 'html' && mode !== 'links' && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={saveHistory}
+                      onChange={(e) => setSaveHistory(e.target.checked)}
+                      disabled={isScanning}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>Save results to history so later scans can be compared</span>
+                  </label>
+                  )}
+
+                  <AdvancedOptions options={scanOptions} onChange={setScanOptions} disabled={isScanning} />
                   
                   <button
-                    onClick={handleScan}
-                    disabled={isScanning || !url.trim()}
+                    onClick={mode === 'batch' ? handleBatchScan : handleScan}
+                    disabled={isScanning || !canScan}
                     className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold py-4 px-8 rounded-xl hover:from-indigo-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-[1.02] active:scale-[0.98] shadow-lg hover:shadow-xl"
                   >
                     {isScanning ? (
                       <div className="flex items-center justify-center space-x-2">
                         <Loader2 className="w-5 h-5 animate-spin" />
-                        <span>Scanning Links...</span>
+                        <span>
+                          {progress && progress.total > 0
+                            ? `Scanning Links... ${progress.checked}/${progress.total}`
+                            : mode === 'batch'
+                            ? 'Fetching Pages...'
+                            : mode === 'sitemap'
+                            ? 'Reading Sitemap...'
+                            : mode === 'single' && shouldCrawl
+                            ? 'Crawling Site...'
+                            : 'Scanning Links...'}
+                        </span>
                       </div>
                     ) : (
                       <div className="flex items-center justify-center space-x-2">
                         <Sparkles className="w-5 h-5" />
-                        <span>Clean My Bio Page</span>
+                        <span>
+                          {mode === 'batch'
+                            ? `Clean ${batchUrls.length || ''} Bio Page${batchUrls.length !== 1 ? 's' : ''}`
+                            : mode === 'html'
+                            ? 'Check HTML Links'
+                            : mode === 'links'
+                            ? `Check ${listedLinks.length || ''} Link${listedLinks.length !== 1 ? 's' : ''}`
+                            : mode === 'sitemap'
+                            ? 'Check Sitemap URLs'
+                            : 'Clean My Bio Page'}
+                        </span>
                       </div>
                     )}
                   </button>
+
+                  {isScanning && (
+                    <div className="flex items-center space-x-3">
+                      <div
+                        className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+                        role="progressbar"
+                        aria-valuemin={0}
+                        aria-valuemax={progress?.total ?? 0}
+                        aria-valuenow={progress?.checked ?? 0}
+                      >
+                        <div
+                          className="h-full bg-gradient-to-r from-indigo-600 to-purple-600 transition-all duration-300"
+                          style={{ width: `${progress && progress.total > 0 ? (progress.checked / progress.total) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <button
+                        onClick={() => cancelScan.current?.()}
+                        className="inline-flex items-center space-x-1 text-sm font-semibold text-gray-600 hover:text-red-600 transition-colors duration-200"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        <span>Cancel</span>
+                      </button>
+                    </div>
+                  )}
                 </div>
 
+                {wasCancelled && (
+                  <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+                    <p className="text-gray-700 font-medium">Scan cancelled. Results below only cover the links checked before it stopped.</p>
+                  </div>
+                )}
+
                 {error && (
                   <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl">
                     <p className="text-red-600 font-medium">{error}</p>
@@ -203,13 +627,18 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
           </div>
 
           {/* Example URLs */}
+          {(mode === 'single' || mode === 'batch') && (
           <div className="text-center">
             <p className="text-sm text-gray-500 mb-3">Try with these example URLs:</p>
             <div className="flex flex-wrap justify-center gap-2">
               {['https://linktr.ee/example', 'https://bio.link/example'].map((exampleUrl) => (
                 <button
                   key={exampleUrl}
-                  onClick={() => setUrl(exampleUrl)}
+                  onClick={() =>
+                    mode === 'single'
+                      ? setUrl(exampleUrl)
+                      : setBatchInput(prev => (prev.trim() ? prev.trim() + '\n' : '') + exampleUrl)
+                  }
                   className="text-sm text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-3 py-1 rounded-lg transition-colors duration-200"
                 >
                   {exampleUrl}
@@ -217,6 +646,7 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
               ))}
             </div>
           </div>
+          )}
         </div>
       </section>
 
@@ -225,28 +655,23 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
         <section className="py-16 px-4 sm:px-6 lg:px-8 bg-white/50">
           <div className="max-w-6xl mx-auto">
             {/* Summary Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-12">
-              <div className="bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6 text-center transform hover:scale-105 transition-transform duration-200">
-                <div className="text-3xl font-bold text-gray-900 mb-2">{result.totalLinks}</div>
-                <div className="text-gray-600 font-medium">Total Links</div>
-              </div>
-              <div className="bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6 text-center transform hover:scale-105 transition-transform duration-200">
-                <div className="text-3xl font-bold text-green-600 mb-2">{result.workingLinks}</div>
-                <div className="text-gray-600 font-medium">Working</div>
-              </div>
-              <div className="bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6 text-center transform hover:scale-105 transition-transform duration-200">
-                <div className="text-3xl font-bold text-yellow-600 mb-2">{result.redirects}</div>
-                <div className="text-gray-600 font-medium">Redirects</div>
-              </div>
-              <div className="bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6 text-center transform hover:scale-105 transition-transform duration-200">
-                <div className="text-3xl font-bold text-red-600 mb-2">{result.brokenLinks}</div>
-                <div className="text-gray-600 font-medium">Broken</div>
-              </div>
-            </div>
+            <SummaryCards counts={result} />
 
             {/* Results Message */}
             <div className="text-center mb-8">
-              {result.brokenLinks === 0 ? (
+              {isScanning ? (
+                <div className="inline-flex items-center space-x-2 bg-indigo-50 text-indigo-800 px-6 py-3 rounded-xl border border-indigo-200">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  <span className="font-semibold">
+                    Checked {progress?.checked ?? result.totalLinks} of {progress?.total ?? result.totalLinks} links...
+                  </span>
+                </div>
+              ) : wasCancelled ? (
+                <div className="inline-flex items-center space-x-2 bg-gray-50 text-gray-700 px-6 py-3 rounded-xl border border-gray-200">
+                  <XCircle className="w-5 h-5" />
+                  <span className="font-semibold">Checked {result.totalLinks} link{result.totalLinks !== 1 ? 's' : ''} before the scan was cancelled</span>
+                </div>
+              ) : result.brokenLinks + result.suspectedBroken === 0 ? (
                 <div className="inline-flex items-center space-x-2 bg-green-50 text-green-800 px-6 py-3 rounded-xl border border-green-200">
                   <CheckCircle className="w-5 h-5" />
                   <span className="font-semibold">🎉 No broken links found! Your bio page is clean.</span>
@@ -254,83 +679,78 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
               ) : (
                 <div className="inline-flex items-center space-x-2 bg-yellow-50 text-yellow-800 px-6 py-3 rounded-xl border border-yellow-200">
                   <AlertTriangle className="w-5 h-5" />
-                  <span className="font-semibold">Found {result.brokenLinks} issue{result.brokenLinks !== 1 ? 's' : ''} that need attention</span>
+                  <span className="font-semibold">Found {result.brokenLinks + result.suspectedBroken} issue{result.brokenLinks + result.suspectedBroken !== 1 ? 's' : ''} that need attention</span>
                 </div>
               )}
             </div>
 
-            {/* Export Button */}
-            <div className="text-center mb-8">
-              <button
-                onClick={exportAsHTML}
-                className="inline-flex items-center space-x-2 bg-gradient-to-r from-green-600 to-emerald-600 text-white font-semibold py-3 px-6 rounded-xl hover:from-green-700 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-xl"
-              >
-                <Download className="w-5 h-5" />
-                <span>Export Clean Links</span>
-              </button>
+            <BrokenByKind counts={result.brokenByKind} />
+            <SafetyFlags counts={result.flagsByKind} />
+            <HealthIssues counts={result.healthByKind} />
+
+            {/* Export Buttons */}
+            <div className="flex flex-wrap justify-center gap-3 mb-8">
+              {EXPORT_FORMATS.map(({ format, label, description }) => (
+                <button
+                  key={format}
+                  onClick={() => downloadExport(format)}
+                  disabled={isScanning}
+                  title={description}
+                  className={
+                    format === 'html'
+                      ? 'inline-flex items-center space-x-2 bg-gradient-to-r from-green-600 to-emerald-600 text-white font-semibold py-3 px-6 rounded-xl hover:from-green-700 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-xl'
+                      : 'inline-flex items-center space-x-2 bg-white text-gray-700 font-semibold py-3 px-5 rounded-xl border border-gray-200 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow'
+                  }
+                >
+                  <Download className="w-5 h-5" />
+                  <span>{format === 'html' ? 'Export Clean Links' : label}</span>
+                </button>
+              ))}
             </div>
 
+            {!isScanning && <ShareReport result={result} url={scannedUrl || undefined} />}
+
             {/* Links Table */}
             <div className="bg-white rounded-2xl shadow-xl border border-gray-200/50 overflow-hidden">
-              <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900">Link Analysis Results</h3>
+              <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {resultsView === 'editor' ? 'Edit Bio Page' : 'Link Analysis Results'}
+                </h3>
+                <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                  {RESULTS_VIEWS.map(view => (
+                    <button
+                      key={view.view}
+                      onClick={() => setResultsView(view.view)}
+                      disabled={view.view === 'editor' && isScanning}
+                      className={`px-3 py-1.5 transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed ${
+                        resultsView === view.view ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {view.label}
+                    </button>
+                  ))}
+                </div>
               </div>
               
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Status</th>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Original URL</th>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Final URL</th>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">HTTP Status</th>
-                      <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Response Time</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200">
-                    {result.links.map((link, index) => (
-                      <tr key={index} className="hover:bg-gray-50 transition-colors duration-150">
-                        <td className="px-6 py-4">
-                          <div className="flex items-center space-x-2">
-                            {getStatusIcon(link)}
-                            {getStatusLabel(link)}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center space-x-2">
-                            <ExternalLink className="w-4 h-4 text-gray-400 flex-shrink-0" />
-                            <span className="text-sm text-gray-900 truncate max-w-xs" title={link.originalUrl}>
-                              {link.originalUrl}
-                            </span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className="text-sm text-gray-600 truncate max-w-xs block" title={link.finalUrl}>
-                            {link.finalUrl}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            link.status >= 200 && link.status < 300
-                              ? 'bg-green-100 text-green-800'
-                              : link.status >= 300 && link.status < 400
-                              ? 'bg-yellow-100 text-yellow-800'
-                              : 'bg-red-100 text-red-800'
-                          }`}>
-                            {link.status} {link.statusText}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className="text-sm text-gray-600">
-                            {link.responseTime}ms
-                          </span>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+              {resultsView === 'editor' && !isScanning ? (
+                <LinkEditor links={result.links} pageUrl={isPageScan ? scannedUrl : undefined} />
+              ) : (
+                <ResultsTable links={result.links} syncWithUrl />
+              )}
             </div>
+
+            {scannedUrl && <ScanHistory url={scannedUrl} refreshKey={historyVersion} />}
+
+            {scannedUrl && isPageScan && !isScanning && <MonitorForm url={scannedUrl} options={scanOptions} />}
+          </div>
+        </section>
+      )}
+
+      {/* Batch Results Section */}
+      {batchResult && (
+        <section className="py-16 px-4 sm:px-6 lg:px-8 bg-white/50">
+          <div className="max-w-6xl mx-auto">
+            <BatchResults result={batchResult} />
           </div>
         </section>
       )}
@@ -357,6 +777,7 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
                 <li>• Instant link scanning</li>
                 <li>• Broken link detection</li>
                 <li>• Export clean links</li>
+                <li>• Scheduled monitoring with alerts</li>
                 <li>• No signup required</li>
               </ul>
             </div>
@@ -364,8 +785,9 @@ ${workingLinks.map(link => `  <a href="${link.finalUrl}" target="_blank" rel="no
             <div>
               <h4 className="text-lg font-semibold mb-4">Privacy</h4>
               <p className="text-gray-400 text-sm">
-                We don&apos;t store your data. All link checking happens in real-time
-                and results are not saved on our servers.
+                Link checking happens in real-time. Results are only stored on our servers
+                when you choose to save them to your scan history, share a report or set up monitoring.
+                Shared reports can be opened by anyone with the link until they expire.
               </p>
             </div>
           </div>
@@ -0,0 +1,55 @@
+import { ImageResponse } from 'next/server';
+import { getReportStore } from '@/lib/storage';
+
+export const alt = 'ClearOut.bio link report';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+// The preview card shown where a report link is pasted: the page and its headline counts
+export default async function Image({ params }: { params: { id: string } }) {
+  const report = await getReportStore().get(params.id);
+  const result = report?.result;
+  const heading = report ? report.url ?? 'Pasted links' : 'Report not found';
+  const stats = result
+    ? [
+        { label: 'Links', value: result.totalLinks, color: '#111827' },
+        { label: 'Working', value: result.workingLinks, color: '#16a34a' },
+        { label: 'Redirects', value: result.redirects, color: '#ca8a04' },
+        { label: 'Broken', value: result.brokenLinks + result.suspectedBroken, color: '#dc2626' },
+      ]
+    : [];
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: 'linear-gradient(135deg, #eef2ff 0%, #ffffff 50%, #faf5ff 100%)',
+          fontFamily: 'sans-serif',
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 40, fontWeight: 700, color: '#4f46e5' }}>ClearOut.bio</div>
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: 36, color: '#6b7280' }}>Link report</div>
+          <div style={{ display: 'flex', fontSize: 52, fontWeight: 700, color: '#111827', marginTop: 8 }}>
+            {heading.length > 48 ? `${heading.slice(0, 47)}…` : heading}
+          </div>
+        </div>
+        <div style={{ display: 'flex' }}>
+          {stats.map(stat => (
+            <div key={stat.label} style={{ display: 'flex', flexDirection: 'column', marginRight: 72 }}>
+              <div style={{ display: 'flex', fontSize: 72, fontWeight: 700, color: stat.color }}>{stat.value}</div>
+              <div style={{ display: 'flex', fontSize: 28, color: '#4b5563' }}>{stat.label}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
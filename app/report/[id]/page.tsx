@@ -0,0 +1,107 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { AlertTriangle, CheckCircle, Sparkles } from 'lucide-react';
+import BrokenByKind from '@/components/BrokenByKind';
+import HealthIssues from '@/components/HealthIssues';
+import ResultsTable from '@/components/ResultsTable';
+import SafetyFlags from '@/components/SafetyFlags';
+import SummaryCards from '@/components/SummaryCards';
+import { describeReport } from '@/lib/reports';
+import { getReportStore } from '@/lib/storage';
+
+// Reports are read from disk on every request and can expire at any moment
+export const dynamic = 'force-dynamic';
+
+type ReportPageProps = { params: { id: string } };
+
+function reportTitle(url: string | undefined): string {
+  return url ? `Link report for ${url}` : 'Link report';
+}
+
+export async function generateMetadata({ params }: ReportPageProps): Promise<Metadata> {
+  const report = await getReportStore().get(params.id);
+  if (!report) {
+    return { title: 'Report not found - ClearOut.bio' };
+  }
+
+  const title = reportTitle(report.url);
+  const description = describeReport(report.result);
+  return {
+    title: `${title} - ClearOut.bio`,
+    description,
+    // Reports are shared by link, not meant to be found through search engines
+    robots: { index: false, follow: false },
+    openGraph: { title, description, type: 'article', siteName: 'ClearOut.bio' },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+export default async function ReportPage({ params }: ReportPageProps) {
+  const report = await getReportStore().get(params.id);
+  if (!report) {
+    notFound();
+  }
+
+  const { result } = report;
+  const issues = result.brokenLinks + result.suspectedBroken;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <Link href="/" className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-indigo-500 to-purple-600 p-2 rounded-xl">
+              <Sparkles className="w-6 h-6 text-white" />
+            </div>
+            <span className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+              ClearOut.bio
+            </span>
+          </Link>
+          <Link href="/" className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">
+            Scan your own page
+          </Link>
+        </div>
+      </header>
+
+      <section className="py-16 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="text-center mb-12">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2 break-all">{reportTitle(report.url)}</h2>
+            <p className="text-sm text-gray-500">
+              Scanned {new Date(report.createdAt).toUTCString()}
+              {report.expiresAt && ` · Link expires ${new Date(report.expiresAt).toUTCString()}`}
+            </p>
+          </div>
+
+          <SummaryCards counts={result} />
+
+          <div className="text-center mb-8">
+            {issues === 0 ? (
+              <div className="inline-flex items-center space-x-2 bg-green-50 text-green-800 px-6 py-3 rounded-xl border border-green-200">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-semibold">No broken links found</span>
+              </div>
+            ) : (
+              <div className="inline-flex items-center space-x-2 bg-yellow-50 text-yellow-800 px-6 py-3 rounded-xl border border-yellow-200">
+                <AlertTriangle className="w-5 h-5" />
+                <span className="font-semibold">Found {issues} issue{issues !== 1 ? 's' : ''} that need attention</span>
+              </div>
+            )}
+          </div>
+
+          <BrokenByKind counts={result.brokenByKind} />
+          <SafetyFlags counts={result.flagsByKind} />
+          <HealthIssues counts={result.healthByKind} />
+
+          <div className="bg-white rounded-2xl shadow-xl border border-gray-200/50 overflow-hidden">
+            <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Link Analysis Results</h3>
+            </div>
+            <ResultsTable links={result.links} syncWithUrl />
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
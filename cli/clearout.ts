@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import {
+  DEFAULT_CRAWL_OPTIONS,
+  DEFAULT_GRADING_RULES,
+  DEFAULT_SCAN_OPTIONS,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  resolveScanOptions,
+  SCAN_OPTION_LIMITS,
+  scanInput,
+  type CrawlOptions,
+  type GradingRules,
+  type ScanInput,
+} from '../lib/core';
+import { formatReports, OUTPUT_FORMATS, type OutputFormat, type TargetReport } from './reporters';
+
+const USAGE = `Usage: clearout [options] <url | file.html>...
+
+Scan bio pages or local HTML files for broken links.
+
+Options:
+  -f, --format <table|json|junit>  Output format (default: table)
+  -o, --output <file>              Write the report to a file instead of stdout
+      --max-broken <n>             Exit with code 1 when more than n links are broken (default: 0)
+      --include-suspected          Count suspected broken links (soft 404s) as broken
+      --base-url <url>             Resolve relative links in local files against this URL
+      --crawl                      Also follow same-site links from each URL, honoring robots.txt
+      --max-depth <n>              Link hops followed when crawling (default: ${DEFAULT_CRAWL_OPTIONS.maxDepth}, max: ${MAX_CRAWL_DEPTH})
+      --max-pages <n>              Pages fetched per crawl (default: ${DEFAULT_CRAWL_OPTIONS.maxPages}, max: ${MAX_CRAWL_PAGES})
+      --resources                  Also check images, favicons, embeds and social preview tags
+      --slow-ms <n>                Mark links taking this many ms as slow (default: ${DEFAULT_GRADING_RULES.slowMs})
+      --degraded-ms <n>            Mark links taking this many ms as degraded (default: ${DEFAULT_GRADING_RULES.degradedMs})
+      --cert-warning-days <n>      Warn about certificates expiring within n days (default: ${DEFAULT_GRADING_RULES.certificateWarningDays})
+      --timeout <ms>               Time allowed per link check (default: ${DEFAULT_SCAN_OPTIONS.linkTimeoutMs})
+      --concurrency <n>            Links checked at once (default: ${DEFAULT_SCAN_OPTIONS.concurrency}, max: ${SCAN_OPTION_LIMITS.concurrency.maximum})
+      --user-agent <value>         User-Agent sent with every request
+      --header <name: value>       Send an extra request header; repeatable
+      --include <pattern>          Only check links matching this glob or /regex/; repeatable
+      --exclude <pattern>          Skip links matching this glob or /regex/; repeatable
+      --same-domain-redirects-ok   Count redirects that stay on the same site as working
+      --check-contact-links        Check the syntax of mailto: and tel: links
+      --allow-private              Allow checking localhost and private network addresses
+  -h, --help                       Show this help
+
+Exit codes: 0 within threshold, 1 threshold exceeded, 2 usage error or a page could not be scanned.`;
+
+// Exit codes the CLI documents
+const EXIT_OK = 0;
+const EXIT_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+// Parse a whole-number option within [min, max]; NaN when it's malformed or out of range
+function boundedInteger(value: string | undefined, fallback: number, min: number, max: number): number {
+  const number = value === undefined ? fallback : Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : NaN;
+}
+
+// Settings every input of a run shares
+type ScanSettings = Pick<ScanInput, 'includeResources' | 'scanOptions'>;
+
+// Turn repeated "Name: value" flags into a header map; undefined when one has no colon
+function parseHeaders(values: string[]): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const colon = value.indexOf(':');
+    if (colon <= 0) {
+      return undefined;
+    }
+    headers[value.slice(0, colon).trim()] = value.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+async function scanTarget(
+  target: string,
+  baseUrl: string | undefined,
+  crawl: CrawlOptions | undefined,
+  settings: ScanSettings
+): Promise<TargetReport> {
+  if (isUrl(target)) {
+    const scan = await scanInput(
+      crawl ? { type: 'crawl', url: target, options: crawl, ...settings } : { type: 'url', url: target, ...settings }
+    );
+    return 'error' in scan ? { target, error: scan.error } : { target, result: scan.result };
+  }
+
+  const path = resolve(target);
+  if (!existsSync(path)) {
+    return { target, error: 'Not a URL and no such file' };
+  }
+
+  const html = await readFile(path, 'utf8');
+  const scan = await scanInput({ type: 'html', html, baseUrl: baseUrl ?? pathToFileURL(path).href, ...settings });
+  return 'error' in scan ? { target, error: scan.error } : { target, result: scan.result };
+}
+
+async function main(): Promise<number> {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs();
+  } catch (error) {
+    console.error(`clearout: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const format = (values.format ?? 'table') as OutputFormat;
+  const maxBroken = Number(values['max-broken'] ?? 0);
+  if (!OUTPUT_FORMATS.includes(format) || !Number.isInteger(maxBroken) || maxBroken < 0 || positionals.length === 0) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+  if (values['base-url'] && !isUrl(values['base-url'])) {
+    console.error('clearout: --base-url must be an http or https URL');
+    return EXIT_ERROR;
+  }
+
+  const crawl: CrawlOptions = {
+    maxDepth: boundedInteger(values['max-depth'], DEFAULT_CRAWL_OPTIONS.maxDepth, 0, MAX_CRAWL_DEPTH),
+    maxPages: boundedInteger(values['max-pages'], DEFAULT_CRAWL_OPTIONS.maxPages, 1, MAX_CRAWL_PAGES),
+  };
+  if (Number.isNaN(crawl.maxDepth) || Number.isNaN(crawl.maxPages)) {
+    console.error(`clearout: --max-depth must be 0-${MAX_CRAWL_DEPTH} and --max-pages 1-${MAX_CRAWL_PAGES}`);
+    return EXIT_ERROR;
+  }
+
+  const grading: GradingRules = {
+    slowMs: boundedInteger(values['slow-ms'], DEFAULT_GRADING_RULES.slowMs, 1, Number.MAX_SAFE_INTEGER),
+    degradedMs: boundedInteger(values['degraded-ms'], DEFAULT_GRADING_RULES.degradedMs, 1, Number.MAX_SAFE_INTEGER),
+    certificateWarningDays: boundedInteger(values['cert-warning-days'], DEFAULT_GRADING_RULES.certificateWarningDays, 0, 365),
+  };
+  if (Number.isNaN(grading.slowMs) || Number.isNaN(grading.degradedMs) || Number.isNaN(grading.certificateWarningDays)) {
+    console.error('clearout: --slow-ms and --degraded-ms must be positive whole numbers and --cert-warning-days 0-365');
+    return EXIT_ERROR;
+  }
+
+  const { linkTimeoutMs, concurrency } = SCAN_OPTION_LIMITS;
+  const timeout = boundedInteger(values.timeout, DEFAULT_SCAN_OPTIONS.linkTimeoutMs, linkTimeoutMs.minimum, linkTimeoutMs.maximum);
+  const checksAtOnce = boundedInteger(values.concurrency, DEFAULT_SCAN_OPTIONS.concurrency, concurrency.minimum, concurrency.maximum);
+  if (Number.isNaN(timeout) || Number.isNaN(checksAtOnce)) {
+    console.error(
+      `clearout: --timeout must be ${linkTimeoutMs.minimum}-${linkTimeoutMs.maximum} and --concurrency ${concurrency.minimum}-${concurrency.maximum}`
+    );
+    return EXIT_ERROR;
+  }
+
+  const headers = parseHeaders(values.header ?? []);
+  if (!headers) {
+    console.error('clearout: --header must look like "Name: value"');
+    return EXIT_ERROR;
+  }
+
+  const scanOptions = resolveScanOptions({
+    linkTimeoutMs: timeout,
+    concurrency: checksAtOnce,
+    userAgent: values['user-agent'],
+    headers,
+    include: values.include,
+    exclude: values.exclude,
+    sameDomainRedirectsOk: values['same-domain-redirects-ok'] === true,
+    validateContactLinks: values['check-contact-links'] === true,
+    grading,
+  });
+  if ('error' in scanOptions) {
+    console.error(`clearout: ${scanOptions.error}`);
+    return EXIT_ERROR;
+  }
+
+  if (values['allow-private']) {
+    process.env.CLEAROUT_ALLOW_PRIVATE_HOSTS = '1';
+  }
+
+  const reports: TargetReport[] = [];
+  for (const target of positionals) {
+    if (format === 'table' && !values.output) {
+      process.stderr.write(`Scanning ${target}...\n`);
+    }
+    reports.push(
+      await scanTarget(target, values['base-url'], values.crawl ? crawl : undefined, {
+        includeResources: values.resources === true,
+        scanOptions: scanOptions.options,
+      })
+    );
+  }
+
+  const report = formatReports(reports, format, values['include-suspected'] === true);
+  if (values.output) {
+    await writeFile(values.output, report);
+  } else {
+    process.stdout.write(report);
+  }
+
+  if (reports.some(entry => entry.error)) {
+    return EXIT_ERROR;
+  }
+
+  const broken = reports.reduce(
+    (total, { result }) => total + (result?.brokenLinks ?? 0) + (values['include-suspected'] ? result?.suspectedBroken ?? 0 : 0),
+    0
+  );
+  if (broken > maxBroken) {
+    console.error(`clearout: ${broken} broken link${broken !== 1 ? 's' : ''} found (allowed: ${maxBroken})`);
+    return EXIT_THRESHOLD;
+  }
+
+  return EXIT_OK;
+}
+
+function parseCliArgs() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      'max-broken': { type: 'string' },
+      'include-suspected': { type: 'boolean' },
+      'base-url': { type: 'string' },
+      crawl: { type: 'boolean' },
+      'max-depth': { type: 'string' },
+      'max-pages': { type: 'string' },
+      resources: { type: 'boolean' },
+      'slow-ms': { type: 'string' },
+      'degraded-ms': { type: 'string' },
+      'cert-warning-days': { type: 'string' },
+      timeout: { type: 'string' },
+      concurrency: { type: 'string' },
+      'user-agent': { type: 'string' },
+      header: { type: 'string', multiple: true },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'same-domain-redirects-ok': { type: 'boolean' },
+      'check-contact-links': { type: 'boolean' },
+      'allow-private': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('clearout:', error);
+    process.exit(EXIT_ERROR);
+  }
+);
@@ -0,0 +1,130 @@
+import { ERROR_KINDS, isBroken, RESOURCE_KINDS, type LinkResult, type ScanResult } from '../lib/core';
+
+export type OutputFormat = 'table' | 'json' | 'junit';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'junit'];
+
+// One scanned input: a URL or a local HTML file, and what scanning it produced
+export interface TargetReport {
+  target: string;
+  result?: ScanResult;
+  error?: string;
+}
+
+const STATUS_SYMBOLS: Record<LinkResult['classification'], string> = {
+  working: 'OK',
+  redirect: 'REDIR',
+  'suspected-broken': 'SUSP',
+  broken: 'FAIL',
+  'redirect-loop': 'LOOP',
+  'too-many-redirects': 'LOOP',
+  'rate-limited': '429',
+  blocked: 'BLOCK',
+};
+
+function pad(value: string, width: number): string {
+  return value.length >= width ? value : value + ' '.repeat(width - value.length);
+}
+
+function describeFailure(link: LinkResult): string {
+  const kind = link.errorKind ? ERROR_KINDS[link.errorKind].label : undefined;
+  return link.soft404Reason ?? kind ?? link.statusText;
+}
+
+function toTable(reports: TargetReport[]): string {
+  const lines: string[] = [];
+
+  for (const report of reports) {
+    lines.push(report.target);
+
+    if (!report.result) {
+      lines.push(`  error: ${report.error}`, '');
+      continue;
+    }
+
+    for (const link of report.result.links) {
+      const status = link.status > 0 ? String(link.status) : '---';
+      const failure = link.isWorking && link.classification !== 'suspected-broken' ? '' : `  ${describeFailure(link)}`;
+      const issues = [...(link.safety ?? []), ...(link.health ?? [])];
+      const note = failure + issues.map(issue => `  [${issue.reason}]`).join('');
+      const kind = link.kind !== 'link' ? `[${RESOURCE_KINDS[link.kind].label}] ` : '';
+      lines.push(`  ${pad(STATUS_SYMBOLS[link.classification], 5)} ${pad(status, 4)} ${kind}${link.originalUrl}${note}`);
+    }
+
+    const { totalLinks, workingLinks, redirects, suspectedBroken, brokenLinks, flaggedLinks, healthScore } = report.result;
+    lines.push(
+      `  ${totalLinks} links: ${workingLinks} working, ${redirects} redirects, ${suspectedBroken} suspected, ${brokenLinks} broken, ${flaggedLinks} flagged`,
+      `  Health score: ${healthScore}/100`,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// One test suite per target and one test case per link, so CI dashboards list each broken link
+function toJunit(reports: TargetReport[], includeSuspected: boolean): string {
+  const isFailure = (link: LinkResult) => isBroken(link) || (includeSuspected && link.classification === 'suspected-broken');
+  const suites = reports.map(report => {
+    const name = escapeXml(report.target);
+
+    if (!report.result) {
+      return [
+        `  <testsuite name="${name}" tests="1" failures="0" errors="1">`,
+        `    <testcase name="${name}" classname="${name}">`,
+        `      <error message="${escapeXml(report.error ?? 'Scan failed')}"/>`,
+        '    </testcase>',
+        '  </testsuite>',
+      ].join('\n');
+    }
+
+    const failures = report.result.links.filter(isFailure).length;
+    const cases = report.result.links.map(link => {
+      const caseName = escapeXml(link.label ? `${link.label} (${link.originalUrl})` : link.originalUrl);
+      const time = (link.responseTime / 1000).toFixed(3);
+
+      if (isFailure(link)) {
+        return [
+          `    <testcase name="${caseName}" classname="${name}" time="${time}">`,
+          `      <failure message="${escapeXml(describeFailure(link))}" type="${link.classification}">${escapeXml(
+            `${link.status} ${link.statusText} -> ${link.finalUrl}`
+          )}</failure>`,
+          '    </testcase>',
+        ].join('\n');
+      }
+      if (!link.isWorking) {
+        // Blocked and rate-limited links weren't really checked
+        return `    <testcase name="${caseName}" classname="${name}" time="${time}"><skipped message="${escapeXml(describeFailure(link))}"/></testcase>`;
+      }
+      return `    <testcase name="${caseName}" classname="${name}" time="${time}"/>`;
+    });
+
+    return [
+      `  <testsuite name="${name}" tests="${report.result.totalLinks}" failures="${failures}" errors="0">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites name="clearout">', ...suites, '</testsuites>', ''].join('\n');
+}
+
+export function formatReports(reports: TargetReport[], format: OutputFormat, includeSuspected: boolean): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(reports, null, 2) + '\n';
+    case 'junit':
+      return toJunit(reports, includeSuspected);
+    default:
+      return toTable(reports);
+  }
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { DEFAULT_SCAN_OPTIONS, resolveScanOptions, SCAN_OPTION_LIMITS, type ScanOptions } from '@/lib/scan-options';
+
+// Where the options are kept between visits
+const STORAGE_KEY = 'clearout.scanOptions';
+
+// Read saved options, falling back to the defaults when there are none or they no longer validate
+function loadOptions(): ScanOptions {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    const resolved = saved ? resolveScanOptions(JSON.parse(saved)) : null;
+    return resolved && 'options' in resolved ? resolved.options : DEFAULT_SCAN_OPTIONS;
+  } catch {
+    return DEFAULT_SCAN_OPTIONS;
+  }
+}
+
+function saveOptions(options: ScanOptions): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch {
+    // Storage can be full or disabled; the options still apply to this visit
+  }
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.keys(headers)
+    .map(name => `${name}: ${headers[name]}`)
+    .join('\n');
+}
+
+// "Name: value" per line; lines without a colon are left out
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+    }
+  });
+  return headers;
+}
+
+function parseLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+// A whole-number input that only reports values within its range, so typing doesn't get interrupted
+function NumberField({
+  label,
+  value,
+  minimum,
+  maximum,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  minimum: number;
+  maximum?: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  return (
+    <label className="flex flex-col gap-1 text-sm text-gray-600">
+      <span>{label}</span>
+      <input
+        type="number"
+        value={draft}
+        min={minimum}
+        max={maximum}
+        step={1}
+        disabled={disabled}
+        onChange={e => {
+          setDraft(e.target.value);
+          const number = Number(e.target.value);
+          if (e.target.value !== '' && Number.isInteger(number) && number >= minimum && (maximum === undefined || number <= maximum)) {
+            onChange(number);
+          }
+        }}
+        onBlur={() => setDraft(String(value))}
+        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      />
+    </label>
+  );
+}
+
+// Collapsible panel for timeouts, request headers, link filters and grading. Changes are saved to
+// localStorage and restored on the next visit; onChange should be a state setter, since saved options
+// are restored whenever it changes.
+export default function AdvancedOptions({
+  options,
+  onChange,
+  disabled,
+}: {
+  options: ScanOptions;
+  onChange: (options: ScanOptions) => void;
+  disabled: boolean;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Text areas keep what was typed, half-finished lines included, and are parsed into the options
+  const [headersText, setHeadersText] = useState('');
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+
+  useEffect(() => {
+    const saved = loadOptions();
+    setHeadersText(formatHeaders(saved.headers));
+    setIncludeText(saved.include.join('\n'));
+    setExcludeText(saved.exclude.join('\n'));
+    onChange(saved);
+  }, [onChange]);
+
+  const update = (changes: Partial<ScanOptions>) => {
+    const next = { ...options, ...changes };
+    saveOptions(next);
+    onChange(next);
+  };
+
+  const reset = () => {
+    saveOptions(DEFAULT_SCAN_OPTIONS);
+    setHeadersText('');
+    setIncludeText('');
+    setExcludeText('');
+    onChange(DEFAULT_SCAN_OPTIONS);
+  };
+
+  const resolved = resolveScanOptions(options);
+  const { linkTimeoutMs, pageTimeoutMs, concurrency, perHostConcurrency, patterns } = SCAN_OPTION_LIMITS;
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-gray-700 hover:text-gray-900"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center space-x-2">
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <span>Advanced</span>
+        </span>
+        {'error' in resolved && <span className="text-xs font-normal text-red-600">{resolved.error}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <NumberField
+              label="Link timeout (ms)"
+              value={options.linkTimeoutMs}
+              {...linkTimeoutMs}
+              disabled={disabled}
+              onChange={value => update({ linkTimeoutMs: value })}
+            />
+            <NumberField
+              label="Page timeout (ms)"
+              value={options.pageTimeoutMs}
+              {...pageTimeoutMs}
+              disabled={disabled}
+              onChange={value => update({ pageTimeoutMs: value })}
+            />
+            <NumberField
+              label="Links at once"
+              value={options.concurrency}
+              {...concurrency}
+              disabled={disabled}
+              onChange={value => update({ concurrency: value })}
+            />
+            <NumberField
+              label="Per host"
+              value={options.perHostConcurrency}
+              {...perHostConcurrency}
+              disabled={disabled}
+              onChange={value => update({ perHostConcurrency: value })}
+            />
+          </div>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            <span>User agent</span>
+            <input
+              type="text"
+              value={options.userAgent}
+              onChange={e => update({ userAgent: e.target.value })}
+              placeholder={DEFAULT_SCAN_OPTIONS.userAgent}
+              disabled={disabled}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            <span>Extra headers, one &quot;Name: value&quot; per line</span>
+            <textarea
+              value={headersText}
+              onChange={e => {
+                setHeadersText(e.target.value);
+                update({ headers: parseHeaders(e.target.value) });
+              }}
+              placeholder="Cookie: preview=1"
+              rows={2}
+              disabled={disabled}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-mono"
+            />
+          </label>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-sm text-gray-600">
+              <span>Only check links matching (one per line, up to {patterns})</span>
+              <textarea
+                value={includeText}
+                onChange={e => {
+                  setIncludeText(e.target.value);
+                  update({ include: parseLines(e.target.value) });
+                }}
+                placeholder="https://shop.example.com/*"
+                rows={3}
+                disabled={disabled}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-mono"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-gray-600">
+              <span>Skip links matching (one per line, up to {patterns})</span>
+              <textarea
+                value={excludeText}
+                onChange={e => {
+                  setExcludeText(e.target.value);
+                  update({ exclude: parseLines(e.target.value) });
+                }}
+                placeholder={'*utm_source=*\n/\\.pdf$/i'}
+                rows={3}
+                disabled={disabled}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent font-mono"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Patterns are globs matched against the whole URL, where * matches anything and ? one character, or
+            regular expressions written as /pattern/flags.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <NumberField
+              label="Slow after (ms)"
+              value={options.grading.slowMs}
+              minimum={1}
+              disabled={disabled}
+              onChange={value => update({ grading: { ...options.grading, slowMs: value } })}
+            />
+            <NumberField
+              label="Degraded after (ms)"
+              value={options.grading.degradedMs}
+              minimum={1}
+              disabled={disabled}
+              onChange={value => update({ grading: { ...options.grading, degradedMs: value } })}
+            />
+            <NumberField
+              label="Certificate warning (days)"
+              value={options.grading.certificateWarningDays}
+              minimum={0}
+              maximum={365}
+              disabled={disabled}
+              onChange={value => update({ grading: { ...options.grading, certificateWarningDays: value } })}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2 text-sm text-gray-600">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.sameDomainRedirectsOk}
+                onChange={e => update({ sameDomainRedirectsOk: e.target.checked })}
+                disabled={disabled}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>Count redirects that stay on the same site (e.g. http to https) as working</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.validateContactLinks}
+                onChange={e => update({ validateContactLinks: e.target.checked })}
+                disabled={disabled}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>Check that mailto: and tel: links hold a valid address or number</span>
+            </label>
+          </div>
+
+          <button
+            type="button"
+            onClick={reset}
+            disabled={disabled}
+            className="inline-flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset to defaults</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
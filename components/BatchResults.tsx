@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, XCircle } from 'lucide-react';
+import BrokenByKind from '@/components/BrokenByKind';
+import ResultsTable from '@/components/ResultsTable';
+import HealthIssues from '@/components/HealthIssues';
+import SafetyFlags from '@/components/SafetyFlags';
+import { healthScoreColor } from '@/components/SummaryCards';
+import type { BatchScanResult } from '@/lib/types';
+
+export default function BatchResults({ result }: { result: BatchScanResult }) {
+  const [openPages, setOpenPages] = useState<Set<string>>(new Set());
+
+  const togglePage = (pageUrl: string) => {
+    setOpenPages(prev => {
+      const next = new Set(prev);
+      if (next.has(pageUrl)) {
+        next.delete(pageUrl);
+      } else {
+        next.add(pageUrl);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      {/* Aggregate Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-6 mb-12">
+        {[
+          { label: 'Health Score', value: `${result.healthScore}/100`, color: healthScoreColor(result.healthScore) },
+          { label: 'Pages', value: result.totalPages, color: 'text-gray-900' },
+          { label: 'Unique Links', value: result.totalLinks, color: 'text-gray-900' },
+          { label: 'Working', value: result.workingLinks, color: 'text-green-600' },
+          { label: 'Redirects', value: result.redirects, color: 'text-yellow-600' },
+          { label: 'Suspected', value: result.suspectedBroken, color: 'text-orange-600' },
+          { label: 'Broken', value: result.brokenLinks, color: 'text-red-600' },
+          ...(result.rateLimited > 0 ? [{ label: 'Rate Limited', value: result.rateLimited, color: 'text-blue-600' }] : []),
+          ...(result.blockedLinks > 0 ? [{ label: 'Blocked', value: result.blockedLinks, color: 'text-gray-600' }] : []),
+          ...(result.flaggedLinks > 0 ? [{ label: 'Flagged', value: result.flaggedLinks, color: 'text-amber-600' }] : []),
+        ].map(card => (
+          <div key={card.label} className="bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6 text-center">
+            <div className={`text-3xl font-bold mb-2 ${card.color}`}>{card.value}</div>
+            <div className="text-gray-600 font-medium">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-center text-sm text-gray-500 mb-8">
+        {result.pageLinks} links across {result.totalPages} page{result.totalPages !== 1 ? 's' : ''}
+        {result.failedPages > 0 && `, ${result.failedPages} page${result.failedPages !== 1 ? 's' : ''} could not be fetched`}
+      </p>
+
+      <BrokenByKind counts={result.brokenByKind} />
+      <SafetyFlags counts={result.flagsByKind} />
+      <HealthIssues counts={result.healthByKind} />
+
+      {/* Per-page Accordion */}
+      <div className="space-y-4">
+        {result.pages.map(page => {
+          const isOpen = openPages.has(page.url);
+          const issues = page.brokenLinks + page.suspectedBroken;
+
+          return (
+            <div key={page.url} className="bg-white rounded-2xl shadow-lg border border-gray-200/50 overflow-hidden">
+              <button
+                onClick={() => togglePage(page.url)}
+                disabled={Boolean(page.error)}
+                aria-expanded={isOpen}
+                className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 disabled:cursor-default transition-colors duration-150"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  {page.error ? (
+                    <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                  ) : isOpen ? (
+                    <ChevronDown className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <ChevronRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900 truncate">{page.url}</div>
+                    {page.error && <div className="text-sm text-red-600">{page.error}</div>}
+                  </div>
+                </div>
+                {!page.error && (
+                  <div className="flex items-center space-x-4 text-sm flex-shrink-0 ml-4">
+                    <span className="text-gray-600">{page.totalLinks} links</span>
+                    {issues === 0 ? (
+                      <span className="inline-flex items-center space-x-1 text-green-600">
+                        <CheckCircle className="w-4 h-4" />
+                        <span>Clean</span>
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center space-x-1 text-yellow-700">
+                        <AlertTriangle className="w-4 h-4" />
+                        <span>{issues} issue{issues !== 1 ? 's' : ''}</span>
+                      </span>
+                    )}
+                  </div>
+                )}
+              </button>
+              {isOpen && !page.error && (
+                <div className="border-t border-gray-200">
+                  <ResultsTable links={page.links} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
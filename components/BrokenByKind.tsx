@@ -0,0 +1,25 @@
+import { ERROR_KINDS, type ErrorKind } from '@/lib/errors';
+import type { LinkCounts } from '@/lib/types';
+
+// Chips breaking the broken-link count down by why each link failed
+export default function BrokenByKind({ counts }: { counts: LinkCounts['brokenByKind'] }) {
+  const kinds = (Object.keys(counts) as ErrorKind[]).sort((a, b) => (counts[b] ?? 0) - (counts[a] ?? 0));
+  if (kinds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mb-8">
+      {kinds.map(kind => (
+        <span
+          key={kind}
+          title={ERROR_KINDS[kind].explanation}
+          className="inline-flex items-center space-x-1 px-3 py-1 text-sm rounded-full bg-red-50 text-red-700 border border-red-100"
+        >
+          <span className="font-semibold">{counts[kind]}</span>
+          <span>{ERROR_KINDS[kind].label}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
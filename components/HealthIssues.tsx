@@ -0,0 +1,25 @@
+import { HEALTH_ISSUES, type HealthIssueKind } from '@/lib/grading';
+import type { LinkCounts } from '@/lib/types';
+
+// Chips counting slow links and expiring certificates, worst first
+export default function HealthIssues({ counts }: { counts: LinkCounts['healthByKind'] }) {
+  const kinds = (Object.keys(HEALTH_ISSUES) as HealthIssueKind[]).filter(kind => counts[kind]);
+  if (kinds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mb-8">
+      {kinds.map(kind => (
+        <span
+          key={kind}
+          title={HEALTH_ISSUES[kind].explanation}
+          className="inline-flex items-center space-x-1 px-3 py-1 text-sm rounded-full bg-sky-50 text-sky-800 border border-sky-200"
+        >
+          <span className="font-semibold">{counts[kind]}</span>
+          <span>{HEALTH_ISSUES[kind].label}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Archive, CornerDownRight, Download, RotateCcw, Trash2 } from 'lucide-react';
+import { BIO_PAGE_THEMES, bioPageHref, buildBioPage, type BioPageThemeName } from '@/lib/bio-page';
+import { downloadFile } from '@/lib/download';
+import { keepsLink } from '@/lib/export';
+import type { LinkResult } from '@/lib/types';
+import { waybackUrl } from '@/lib/url';
+
+// One row of the page being built, remembering the scan result it started from
+interface EditorLink {
+  id: number;
+  label: string;
+  url: string;
+  source: LinkResult;
+}
+
+// Anchors only, in the order they appeared on the page
+function initialLinks(links: LinkResult[]): EditorLink[] {
+  return links
+    .filter(link => link.kind === 'link')
+    .sort((a, b) => a.position - b.position)
+    .map((link, index) => ({
+      id: index,
+      label: link.label ?? '',
+      url: link.originalUrl,
+      source: link,
+    }));
+}
+
+export default function LinkEditor({ links, pageUrl }: { links: LinkResult[]; pageUrl?: string }) {
+  const [entries, setEntries] = useState<EditorLink[]>(() => initialLinks(links));
+  const [title, setTitle] = useState('My Links');
+  const [description, setDescription] = useState('');
+  const [theme, setTheme] = useState<BioPageThemeName>('light');
+
+  const page = {
+    title: title.trim() || 'My Links',
+    description: description.trim() || undefined,
+    links: entries
+      .filter(entry => entry.url.trim())
+      .map(entry => ({ label: entry.label.trim(), url: entry.url.trim(), rel: entry.source.rel })),
+  };
+  const bioPage = buildBioPage(page, theme);
+  const brokenCount = entries.filter(entry => entry.url === entry.source.originalUrl && !keepsLink(entry.source)).length;
+
+  const updateEntry = (id: number, changes: Partial<EditorLink>) => {
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const moveEntry = (index: number, offset: number) => {
+    setEntries(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeEntry = (id: number) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  // Drop every link that is still broken; ones given a replacement URL stay
+  const removeBroken = () => {
+    setEntries(prev => prev.filter(entry => entry.url !== entry.source.originalUrl || keepsLink(entry.source)));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="grid md:grid-cols-3 gap-4">
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Page title</span>
+          <input
+            type="text"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Description</span>
+          <input
+            type="text"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            placeholder="Optional"
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Theme</span>
+          <select
+            value={theme}
+            onChange={e => setTheme(e.target.value as BioPageThemeName)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {(Object.keys(BIO_PAGE_THEMES) as BioPageThemeName[]).map(name => (
+              <option key={name} value={name}>{BIO_PAGE_THEMES[name].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={removeBroken}
+          disabled={brokenCount === 0}
+          className="inline-flex items-center px-3 py-2 text-sm rounded-lg border border-red-200 text-red-700 bg-red-50 hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Remove broken ({brokenCount})
+        </button>
+        <button
+          onClick={() => setEntries(initialLinks(links))}
+          className="inline-flex items-center px-3 py-2 text-sm rounded-lg border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-150"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </button>
+        <button
+          onClick={() => downloadFile(bioPage)}
+          disabled={page.links.length === 0}
+          className="inline-flex items-center px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download Bio Page
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <ol className="space-y-3">
+          {entries.length === 0 && (
+            <li className="text-sm text-gray-500">No links left. Reset to start over.</li>
+          )}
+          {entries.map((entry, index) => {
+            const { source } = entry;
+            const isBroken = !keepsLink(source);
+            const isUnchanged = entry.url === source.originalUrl;
+            // A suspected-broken redirect usually ends on a homepage, which isn't a replacement
+            const canUseFinalUrl = source.isRedirect && !isBroken && entry.url !== source.finalUrl;
+            const href = entry.url.trim() ? bioPageHref(entry.url) : entry.url;
+            const archivedUrl = waybackUrl(source.originalUrl);
+
+            return (
+              <li
+                key={entry.id}
+                className={`rounded-xl border p-4 space-y-2 ${
+                  isBroken && isUnchanged ? 'border-red-200 bg-red-50/50' : 'border-gray-200 bg-white'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-400 w-6 text-right">{index + 1}.</span>
+                  <input
+                    type="text"
+                    value={entry.label}
+                    onChange={e => updateEntry(entry.id, { label: e.target.value })}
+                    placeholder="Label"
+                    aria-label="Label"
+                    className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={() => moveEntry(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                    className="p-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveEntry(index, 1)}
+                    disabled={index === entries.length - 1}
+                    aria-label="Move down"
+                    className="p-1.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeEntry(entry.id)}
+                    aria-label="Delete link"
+                    className="p-1.5 text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="url"
+                  value={entry.url}
+                  onChange={e => updateEntry(entry.id, { url: e.target.value })}
+                  placeholder="https://"
+                  aria-label="URL"
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  {isBroken && isUnchanged && (
+                    <span className="text-red-700 font-medium">
+                      {source.classification === 'suspected-broken'
+                        ? `Suspected broken (${source.soft404Reason})`
+                        : `Broken (${source.status || source.statusText})`}
+                    </span>
+                  )}
+                  {href === undefined && (
+                    <span className="text-red-700 font-medium">Not a web, email or phone link - left out of the page</span>
+                  )}
+                  {href && href !== entry.url.trim() && <span className="text-gray-500">Links to {href}</span>}
+                  {canUseFinalUrl && (
+                    <button
+                      onClick={() => updateEntry(entry.id, { url: source.finalUrl })}
+                      title={source.finalUrl}
+                      className="inline-flex items-center px-2 py-1 rounded bg-yellow-50 text-yellow-800 hover:bg-yellow-100"
+                    >
+                      <CornerDownRight className="w-3 h-3 mr-1" />
+                      Use final URL
+                    </button>
+                  )}
+                  {isBroken && entry.url !== archivedUrl && (
+                    <button
+                      onClick={() => updateEntry(entry.id, { url: archivedUrl })}
+                      title={archivedUrl}
+                      className="inline-flex items-center px-2 py-1 rounded bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                    >
+                      <Archive className="w-3 h-3 mr-1" />
+                      Use Wayback snapshot
+                    </button>
+                  )}
+                  {!isUnchanged && (
+                    <button
+                      onClick={() => updateEntry(entry.id, { url: source.originalUrl })}
+                      title={source.originalUrl}
+                      className="inline-flex items-center px-2 py-1 rounded bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Undo URL change
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-gray-700">Preview</div>
+          <iframe
+            title="Bio page preview"
+            srcDoc={bioPage.content}
+            sandbox=""
+            className="w-full h-[32rem] rounded-xl border border-gray-200"
+          />
+          {pageUrl && (
+            <p className="text-xs text-gray-500 break-all">Built from the links on {pageUrl}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BellRing, Loader2, Trash2 } from 'lucide-react';
+import type { PublicMonitor } from '@/lib/monitor/types';
+import type { ScanOptions } from '@/lib/scan-options';
+
+const INTERVALS = [
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 6 * 60, label: 'Every 6 hours' },
+  { minutes: 24 * 60, label: 'Every day' },
+  { minutes: 7 * 24 * 60, label: 'Every week' },
+];
+
+// Where this browser keeps the token its monitors were created with
+const TOKEN_STORAGE_KEY = 'clearout.monitorToken';
+
+function storedToken(): string | null {
+  try {
+    return window.localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function authorization(token: string | null): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function intervalLabel(minutes: number): string {
+  return INTERVALS.find(interval => interval.minutes === minutes)?.label ?? `Every ${minutes} minutes`;
+}
+
+// Register a bio page for recurring checks, using the scan's options, or show and remove the monitors
+// already watching it
+export default function MonitorForm({ url, options }: { url: string; options: ScanOptions }) {
+  const [monitors, setMonitors] = useState<PublicMonitor[]>([]);
+  const [intervalMinutes, setIntervalMinutes] = useState(24 * 60);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Monitors are only visible to the browser that created them
+    const token = storedToken();
+    if (!token) {
+      setMonitors([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch(`/api/monitors?url=${encodeURIComponent(url)}`, { headers: authorization(token) })
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled) setMonitors(data.monitors ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load monitors');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const createMonitor = async () => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/monitors', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authorization(storedToken()),
+        },
+        body: JSON.stringify({ url, intervalMinutes, webhookUrl: webhookUrl.trim(), options }),
+      });
+      const { token, ...data } = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create monitor');
+      }
+      if (token) {
+        try {
+          window.localStorage.setItem(TOKEN_STORAGE_KEY, token);
+        } catch {
+          setError('Monitoring started, but this browser could not keep the token needed to remove it later');
+        }
+      }
+      setMonitors(prev => [...prev, data]);
+      setWebhookUrl('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteMonitor = async (id: string) => {
+    setError('');
+    const response = await fetch(`/api/monitors/${id}`, { method: 'DELETE', headers: authorization(storedToken()) });
+    if (response.ok || response.status === 404) {
+      setMonitors(prev => prev.filter(monitor => monitor.id !== id));
+    } else {
+      setError('Failed to remove monitor');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200/50 overflow-hidden mt-8">
+      <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <BellRing className="w-5 h-5 text-indigo-600" />
+          <span>Monitoring</span>
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Re-check this page on a schedule and get an alert when a working link breaks. A link has to fail
+          twice in a row before it is reported.
+        </p>
+      </div>
+
+      {monitors.length > 0 && (
+        <ul className="divide-y divide-gray-200">
+          {monitors.map(monitor => (
+            <li key={monitor.id} className="px-6 py-3 flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <div className="text-gray-900">
+                  {intervalLabel(monitor.intervalMinutes)} · {monitor.webhookHost ? `webhook on ${monitor.webhookHost}` : 'local outbox'}
+                </div>
+                <div className="text-gray-500">
+                  Next check {new Date(monitor.nextRunAt).toLocaleString()}
+                  {monitor.lastError && <span className="text-red-600"> · {monitor.lastError}</span>}
+                </div>
+              </div>
+              <button
+                onClick={() => deleteMonitor(monitor.id)}
+                className="text-gray-400 hover:text-red-600 ml-4"
+                aria-label="Stop monitoring"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="px-6 py-4 border-t border-gray-200 flex flex-col md:flex-row gap-3">
+        <select
+          value={intervalMinutes}
+          onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        >
+          {INTERVALS.map(interval => (
+            <option key={interval.minutes} value={interval.minutes}>
+              {interval.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="url"
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          placeholder="Webhook URL (optional)"
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        />
+        <button
+          onClick={createMonitor}
+          disabled={isSaving}
+          className="inline-flex items-center justify-center space-x-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Monitor This Page</span>
+        </button>
+      </div>
+
+      {error && <p className="px-6 pb-4 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,556 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { CheckCircle, XCircle, AlertTriangle, ExternalLink, ChevronDown, ChevronRight, RefreshCw, HelpCircle, ShieldOff, Clock, ArrowUp, ArrowDown, ArrowUpDown, Search } from 'lucide-react';
+import { ERROR_KINDS, type ErrorKind } from '@/lib/errors';
+import { HEALTH_ISSUES } from '@/lib/grading';
+import { RESOURCE_KINDS, type ResourceKind } from '@/lib/resources';
+import { SAFETY_FLAGS } from '@/lib/safety/flags';
+import {
+  DEFAULT_TABLE_VIEW,
+  STATUS_FILTERS,
+  TABLE_PAGE_SIZE,
+  applyTableView,
+  linkDomain,
+  parseTableView,
+  writeTableView,
+  type SortKey,
+  type StatusFilter,
+  type TableView,
+} from '@/lib/table-view';
+import type { LinkResult } from '@/lib/types';
+
+const COLUMNS: { label: string; sort: SortKey }[] = [
+  { label: 'Status', sort: 'status' },
+  { label: 'Original URL', sort: 'url' },
+  { label: 'Final URL', sort: 'finalUrl' },
+  { label: 'HTTP Status', sort: 'httpStatus' },
+  { label: 'Response Time', sort: 'responseTime' },
+];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// What the final response looked like, for the details row; only what was measured
+function responseFacts(link: LinkResult): { label: string; value: string }[] {
+  const facts: { label: string; value: string }[] = [];
+  if (link.timing) {
+    facts.push({ label: 'Time to first byte', value: `${link.timing.firstByte}ms` });
+    if (link.timing.redirects > 0) {
+      facts.push({ label: 'Redirects', value: `${link.timing.redirects}ms` });
+    }
+    facts.push({ label: 'Total', value: `${link.timing.total}ms` });
+  }
+  if (link.httpVersion) facts.push({ label: 'HTTP version', value: link.httpVersion });
+  if (link.contentType) facts.push({ label: 'Content type', value: link.contentType });
+  if (link.contentLength !== undefined) facts.push({ label: 'Size', value: formatBytes(link.contentLength) });
+  if (link.certificateExpiresAt) {
+    facts.push({ label: 'Certificate expires', value: new Date(link.certificateExpiresAt).toLocaleDateString() });
+  }
+  return facts;
+}
+
+function chipClass(isActive: boolean): string {
+  return `px-3 py-1 text-sm rounded-full border transition-colors duration-150 ${
+    isActive ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+  }`;
+}
+
+// With syncWithUrl the view is read from and written to the query string, so only one table per page should set it
+export default function ResultsTable({ links, syncWithUrl = false }: { links: LinkResult[]; syncWithUrl?: boolean }) {
+  const [expandedLinks, setExpandedLinks] = useState<Set<string>>(new Set());
+  const [view, setView] = useState<TableView>(DEFAULT_TABLE_VIEW);
+
+  useEffect(() => {
+    if (syncWithUrl) {
+      setView(parseTableView(new URLSearchParams(window.location.search)));
+    }
+  }, [syncWithUrl]);
+
+  // Any change other than turning the page starts back on page 1
+  const updateView = (changes: Partial<TableView>) => {
+    const next = { ...view, page: 1, ...changes };
+    setView(next);
+
+    if (syncWithUrl) {
+      const query = writeTableView(next, new URLSearchParams(window.location.search)).toString();
+      window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+    }
+  };
+
+  const toggleSort = (sort: SortKey) => {
+    if (view.sort !== sort) {
+      updateView({ sort, direction: 'asc' });
+    } else if (view.direction === 'asc') {
+      updateView({ direction: 'desc' });
+    } else {
+      updateView({ sort: DEFAULT_TABLE_VIEW.sort, direction: DEFAULT_TABLE_VIEW.direction });
+    }
+  };
+
+  // Only offer filters that would match something
+  const kindCounts: Partial<Record<ResourceKind, number>> = {};
+  const errorCounts: Partial<Record<ErrorKind, number>> = {};
+  const domainCounts = new Map<string, number>();
+  for (const link of links) {
+    kindCounts[link.kind] = (kindCounts[link.kind] ?? 0) + 1;
+    if (link.errorKind) {
+      errorCounts[link.errorKind] = (errorCounts[link.errorKind] ?? 0) + 1;
+    }
+    const domain = linkDomain(link);
+    domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+  }
+  const kinds = (Object.keys(RESOURCE_KINDS) as ResourceKind[]).filter(kind => kindCounts[kind]);
+  const errorKinds = (Object.keys(ERROR_KINDS) as ErrorKind[]).filter(kind => errorCounts[kind]);
+  const statuses = (Object.keys(STATUS_FILTERS) as StatusFilter[])
+    .map(status => ({ status, count: links.filter(STATUS_FILTERS[status].matches).length }))
+    .filter(({ count }) => count > 0);
+  const domains = Array.from(domainCounts.keys()).sort();
+
+  const matchingLinks = applyTableView(links, view);
+  const pageCount = Math.max(Math.ceil(matchingLinks.length / TABLE_PAGE_SIZE), 1);
+  const currentPage = Math.min(view.page, pageCount);
+  const firstIndex = (currentPage - 1) * TABLE_PAGE_SIZE;
+  const visibleLinks = matchingLinks.slice(firstIndex, firstIndex + TABLE_PAGE_SIZE);
+  const isFiltered = Boolean(view.status || view.errorKind || view.kind || view.domain || view.search.trim());
+
+  const toggleExpanded = (originalUrl: string) => {
+    setExpandedLinks(prev => {
+      const next = new Set(prev);
+      if (next.has(originalUrl)) {
+        next.delete(originalUrl);
+      } else {
+        next.add(originalUrl);
+      }
+      return next;
+    });
+  };
+
+  const getStatusIcon = (link: LinkResult) => {
+    switch (link.classification) {
+      case 'working':
+        return <CheckCircle className="w-5 h-5 text-green-500" />;
+      case 'redirect':
+        return <AlertTriangle className="w-5 h-5 text-yellow-500" />;
+      case 'suspected-broken':
+        return <HelpCircle className="w-5 h-5 text-orange-500" />;
+      case 'redirect-loop':
+      case 'too-many-redirects':
+        return <RefreshCw className="w-5 h-5 text-red-500" />;
+      case 'rate-limited':
+        return <Clock className="w-5 h-5 text-blue-500" />;
+      case 'blocked':
+        return <ShieldOff className="w-5 h-5 text-gray-500" />;
+      default:
+        return <XCircle className="w-5 h-5 text-red-500" />;
+    }
+  };
+
+  const getStatusLabel = (link: LinkResult) => {
+    switch (link.classification) {
+      case 'working':
+        return <span className="text-green-600 font-medium">✅ Working</span>;
+      case 'redirect':
+        return <span className="text-yellow-600 font-medium">⚠️ Redirect</span>;
+      case 'suspected-broken':
+        return (
+          <span className="text-orange-600 font-medium" title={link.soft404Reason}>
+            🤔 Suspected Broken
+          </span>
+        );
+      case 'redirect-loop':
+        return <span className="text-red-600 font-medium">🔁 Redirect Loop</span>;
+      case 'too-many-redirects':
+        return <span className="text-red-600 font-medium">🔁 Too Many Redirects</span>;
+      case 'rate-limited':
+        return (
+          <span
+            className="text-blue-600 font-medium"
+            title={link.retryAfter !== undefined ? `Host asked to retry after ${link.retryAfter}s` : undefined}
+          >
+            ⏳ Rate Limited
+          </span>
+        );
+      case 'blocked':
+        return (
+          <span className="text-gray-600 font-medium" title={link.statusText}>
+            🛡️ Blocked
+          </span>
+        );
+      default:
+        return <span className="text-red-600 font-medium">❌ Broken</span>;
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="px-6 py-3 border-b border-gray-200 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={view.search}
+              onChange={e => updateView({ search: e.target.value })}
+              placeholder="Search URLs and labels"
+              aria-label="Search links"
+              className="w-full pl-9 pr-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          {domains.length > 1 && (
+            <select
+              value={view.domain ?? ''}
+              onChange={e => updateView({ domain: e.target.value || undefined })}
+              aria-label="Filter by domain"
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">All domains</option>
+              {domains.map(domain => (
+                <option key={domain} value={domain}>{domain} ({domainCounts.get(domain)})</option>
+              ))}
+            </select>
+          )}
+          <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={view.groupByDomain}
+              onChange={e => updateView({ groupByDomain: e.target.checked })}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>Group by domain</span>
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => updateView({ status: undefined, errorKind: undefined })} className={chipClass(!view.status && !view.errorKind)}>
+            All ({links.length})
+          </button>
+          {statuses.map(({ status, count }) => (
+            <button
+              key={status}
+              onClick={() => updateView({ status: view.status === status ? undefined : status, errorKind: undefined })}
+              className={chipClass(view.status === status)}
+            >
+              {STATUS_FILTERS[status].label} ({count})
+            </button>
+          ))}
+          {errorKinds.map(kind => (
+            <button
+              key={kind}
+              onClick={() => updateView({ errorKind: view.errorKind === kind ? undefined : kind, status: undefined })}
+              title={ERROR_KINDS[kind].explanation}
+              className={chipClass(view.errorKind === kind)}
+            >
+              {ERROR_KINDS[kind].label} ({errorCounts[kind]})
+            </button>
+          ))}
+        </div>
+        {kinds.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {(['all', ...kinds] as (ResourceKind | 'all')[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => updateView({ kind: kind === 'all' ? undefined : kind })}
+                className={chipClass((view.kind ?? 'all') === kind)}
+              >
+                {kind === 'all' ? `All kinds (${links.length})` : `${RESOURCE_KINDS[kind].label} (${kindCounts[kind]})`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <table className="w-full">
+        <thead className="bg-gray-50">
+          <tr>
+            {COLUMNS.map(column => {
+              const isSorted = view.sort === column.sort;
+              return (
+                <th
+                  key={column.sort}
+                  aria-sort={isSorted ? (view.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                  className="px-6 py-4 text-left text-sm font-semibold text-gray-900"
+                >
+                  <button onClick={() => toggleSort(column.sort)} className="inline-flex items-center space-x-1 hover:text-indigo-700">
+                    <span>{column.label}</span>
+                    {!isSorted ? (
+                      <ArrowUpDown className="w-3.5 h-3.5 text-gray-400" />
+                    ) : view.direction === 'asc' ? (
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    ) : (
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {visibleLinks.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                No links match{isFiltered ? ' these filters' : ''}.
+              </td>
+            </tr>
+          )}
+          {visibleLinks.map((link, index) => {
+            const domain = linkDomain(link);
+            const startsGroup = view.groupByDomain && (index === 0 || linkDomain(visibleLinks[index - 1]) !== domain);
+            const hasChain = link.redirectChain.length > 1;
+            const errorInfo = link.errorKind ? ERROR_KINDS[link.errorKind] : undefined;
+            const foundOn = link.foundOn ?? [];
+            const variants = link.variants ?? [];
+            const safety = link.safety ?? [];
+            const health = link.health ?? [];
+            const facts = responseFacts(link);
+            const hasDetails =
+              hasChain || errorInfo !== undefined || foundOn.length > 0 || variants.length > 0 || safety.length > 0 || health.length > 0 || facts.length > 0;
+            const speed = health.find(issue => issue.kind === 'slow' || issue.kind === 'degraded');
+            const isExpanded = expandedLinks.has(link.originalUrl);
+
+            return (
+              <Fragment key={link.originalUrl}>
+                {startsGroup && (
+                  <tr className="bg-indigo-50/60">
+                    <td colSpan={5} className="px-6 py-2 text-sm font-semibold text-indigo-900">
+                      {domain} <span className="font-normal text-indigo-700">({domainCounts.get(domain)})</span>
+                    </td>
+                  </tr>
+                )}
+                <tr className="hover:bg-gray-50 transition-colors duration-150">
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-2">
+                      {hasDetails ? (
+                        <button
+                          onClick={() => toggleExpanded(link.originalUrl)}
+                          className="text-gray-400 hover:text-gray-700"
+                          aria-expanded={isExpanded}
+                          aria-label={isExpanded ? 'Hide details' : 'Show details'}
+                        >
+                          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                      ) : (
+                        <span className="w-4 h-4" />
+                      )}
+                      {getStatusIcon(link)}
+                      {getStatusLabel(link)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-2">
+                      <ExternalLink className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        {link.label && (
+                          <span className="text-sm font-medium text-gray-900 truncate max-w-xs block" title={link.label}>
+                            {link.label}
+                          </span>
+                        )}
+                        <span
+                          className={`text-sm truncate max-w-xs block ${link.label ? 'text-gray-500' : 'text-gray-900'}`}
+                          title={link.originalUrl}
+                        >
+                          {link.originalUrl}
+                        </span>
+                        {(link.occurrences > 1 || link.rel || foundOn.length > 1 || variants.length > 1 || link.kind !== 'link' || safety.length > 0 || health.length > 0) && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {safety.map(issue => (
+                              <span
+                                key={issue.flag}
+                                title={issue.reason}
+                                className={`px-1.5 py-0.5 text-xs rounded font-medium ${
+                                  issue.flag === 'malware' ? 'bg-red-100 text-red-800' : 'bg-amber-50 text-amber-800'
+                                }`}
+                              >
+                                {SAFETY_FLAGS[issue.flag].label}
+                              </span>
+                            ))}
+                            {health.map(issue => (
+                              <span key={issue.kind} title={issue.reason} className="px-1.5 py-0.5 text-xs rounded font-medium bg-sky-50 text-sky-800">
+                                {HEALTH_ISSUES[issue.kind].label}
+                              </span>
+                            ))}
+                            {link.kind !== 'link' && (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-teal-50 text-teal-700">
+                                {RESOURCE_KINDS[link.kind].label}
+                              </span>
+                            )}
+                            {foundOn.length > 1 ? (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-indigo-50 text-indigo-700">
+                                on {foundOn.length} pages
+                              </span>
+                            ) : link.occurrences > 1 && (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-indigo-50 text-indigo-700">
+                                ×{link.occurrences} on page
+                              </span>
+                            )}
+                            {variants.length > 1 && (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-purple-50 text-purple-700">
+                                {variants.length} variants
+                              </span>
+                            )}
+                            {link.rel?.map(value => (
+                              <span key={value} className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">
+                                rel={value}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="text-sm text-gray-600 truncate max-w-xs block" title={link.finalUrl}>
+                      {link.finalUrl}
+                    </span>
+                    {link.soft404Reason && (
+                      <span className="text-xs text-orange-600 block">{link.soft404Reason}</span>
+                    )}
+                    {hasChain && (
+                      <span className="text-xs text-gray-400">
+                        {link.redirectChain.length - 1} hop{link.redirectChain.length !== 2 ? 's' : ''}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      link.status >= 200 && link.status < 300
+                        ? 'bg-green-100 text-green-800'
+                        : link.status >= 300 && link.status < 400
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}>
+                      {link.status} {link.statusText}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span
+                      title={speed?.reason}
+                      className={`text-sm ${
+                        speed?.kind === 'degraded' ? 'text-red-600 font-medium' : speed ? 'text-amber-600 font-medium' : 'text-gray-600'
+                      }`}
+                    >
+                      {link.responseTime}ms
+                    </span>
+                    {link.timing && (
+                      <span className="text-xs text-gray-400 block">TTFB {link.timing.firstByte}ms</span>
+                    )}
+                  </td>
+                </tr>
+                {hasDetails && isExpanded && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={5} className="px-6 py-4 space-y-4">
+                      {errorInfo && (
+                        <div className="text-sm">
+                          <div className="font-semibold text-gray-900">{errorInfo.label}</div>
+                          <p className="text-gray-600">{errorInfo.explanation}</p>
+                          <p className="text-gray-600">
+                            <span className="font-medium text-gray-900">How to fix: </span>
+                            {errorInfo.suggestion}
+                          </p>
+                        </div>
+                      )}
+                      {safety.map(issue => (
+                        <div key={issue.flag} className="text-sm">
+                          <div className="font-semibold text-gray-900">{SAFETY_FLAGS[issue.flag].label}: {issue.reason}</div>
+                          <p className="text-gray-600">{SAFETY_FLAGS[issue.flag].explanation}</p>
+                        </div>
+                      ))}
+                      {health.map(issue => (
+                        <div key={issue.kind} className="text-sm">
+                          <div className="font-semibold text-gray-900">{HEALTH_ISSUES[issue.kind].label}: {issue.reason}</div>
+                          <p className="text-gray-600">{HEALTH_ISSUES[issue.kind].explanation}</p>
+                        </div>
+                      ))}
+                      {facts.length > 0 && (
+                        <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 text-sm">
+                          {facts.map(fact => (
+                            <div key={fact.label}>
+                              <dt className="text-gray-500">{fact.label}</dt>
+                              <dd className="text-gray-900 break-all">{fact.value}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                      {variants.length > 0 && (
+                        <div className="text-sm">
+                          <div className="font-semibold text-gray-900">Written as</div>
+                          <ul className="text-gray-600">
+                            {variants.map(variant => (
+                              <li key={variant} className="break-all">{variant}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {foundOn.length > 0 && (
+                        <div className="text-sm">
+                          <div className="font-semibold text-gray-900">Found on</div>
+                          <ul className="text-gray-600">
+                            {foundOn.map(page => (
+                              <li key={page} className="break-all">{page}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {hasChain && (
+                        <ol className="space-y-2">
+                          {link.redirectChain.map((hop, hopIndex) => (
+                            <li key={hopIndex} className="flex items-start space-x-3 text-sm">
+                              <span className="text-gray-400 w-6 text-right flex-shrink-0">{hopIndex + 1}.</span>
+                              <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full flex-shrink-0 ${
+                                hop.status >= 300 && hop.status < 400
+                                  ? 'bg-yellow-100 text-yellow-800'
+                                  : hop.status >= 200 && hop.status < 300
+                                  ? 'bg-green-100 text-green-800'
+                                  : 'bg-red-100 text-red-800'
+                              }`}>
+                                {hop.status}
+                              </span>
+                              <div className="min-w-0">
+                                <div className="text-gray-900 break-all">{hop.url}</div>
+                                {hop.location && (
+                                  <div className="text-gray-500 break-all">Location: {hop.location}</div>
+                                )}
+                              </div>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+          <span>
+            {firstIndex + 1}–{firstIndex + visibleLinks.length} of {matchingLinks.length}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => updateView({ page: currentPage - 1 })}
+              disabled={currentPage === 1}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span>
+              Page {currentPage} of {pageCount}
+            </span>
+            <button
+              onClick={() => updateView({ page: currentPage + 1 })}
+              disabled={currentPage === pageCount}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
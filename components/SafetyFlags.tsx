@@ -0,0 +1,25 @@
+import { SAFETY_FLAGS, type SafetyFlag } from '@/lib/safety/flags';
+import type { LinkCounts } from '@/lib/types';
+
+// Chips counting the safety issues found, most serious first
+export default function SafetyFlags({ counts }: { counts: LinkCounts['flagsByKind'] }) {
+  const flags = (Object.keys(SAFETY_FLAGS) as SafetyFlag[]).filter(flag => counts[flag]);
+  if (flags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mb-8">
+      {flags.map(flag => (
+        <span
+          key={flag}
+          title={SAFETY_FLAGS[flag].explanation}
+          className="inline-flex items-center space-x-1 px-3 py-1 text-sm rounded-full bg-amber-50 text-amber-800 border border-amber-200"
+        >
+          <span className="font-semibold">{counts[flag]}</span>
+          <span>{SAFETY_FLAGS[flag].label}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
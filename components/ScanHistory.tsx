@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import type { LinkChange, ScanDiff } from '@/lib/diff';
+import type { SavedScanSummary } from '@/lib/storage/types';
+
+const DIFF_GROUPS: { key: keyof ScanDiff; label: string; color: string }[] = [
+  { key: 'newlyBroken', label: 'Newly Broken', color: 'text-red-600' },
+  { key: 'newlyFixed', label: 'Newly Fixed', color: 'text-green-600' },
+  { key: 'newlyRedirecting', label: 'Newly Redirecting', color: 'text-yellow-600' },
+  { key: 'added', label: 'Added', color: 'text-indigo-600' },
+  { key: 'removed', label: 'Removed', color: 'text-gray-600' },
+];
+
+// Describe how a link looked in a scan, e.g. "404 Not Found"
+function describe(link: LinkChange['before']): string {
+  return link ? `${link.status} ${link.statusText}` : '—';
+}
+
+// Saved scans of one bio page, with a diff between any two of them
+export default function ScanHistory({ url, refreshKey }: { url: string; refreshKey: number }) {
+  const [scans, setScans] = useState<SavedScanSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<ScanDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/history?url=${encodeURIComponent(url)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        const history: SavedScanSummary[] = data.scans ?? [];
+        setScans(history);
+        // Start out comparing the latest scan against the one before it
+        setSelected(history.slice(0, 2).map(scan => scan.id));
+        setDiff(null);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load scan history');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    setDiff(null);
+    setSelected(prev => (prev.includes(id) ? prev.filter(value => value !== id) : [...prev, id].slice(-2)));
+  };
+
+  const compare = async () => {
+    // History is newest first, so the later index is the older scan
+    const [to, from] = scans.filter(scan => selected.includes(scan.id)).map(scan => scan.id);
+
+    setIsComparing(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/history/diff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from, to }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare scans');
+      }
+      setDiff(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  if (scans.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200/50 overflow-hidden mt-8">
+      <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <History className="w-5 h-5 text-indigo-600" />
+          <span>Scan History</span>
+        </h3>
+        <button
+          onClick={compare}
+          disabled={selected.length !== 2 || isComparing}
+          className="inline-flex items-center space-x-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isComparing && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Compare Selected</span>
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {scans.map(scan => (
+          <li key={scan.id} className="px-6 py-3">
+            <label className="flex items-center justify-between cursor-pointer text-sm">
+              <span className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(scan.id)}
+                  onChange={() => toggleSelected(scan.id)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-gray-900">{new Date(scan.createdAt).toLocaleString()}</span>
+              </span>
+              <span className="space-x-4 text-gray-600">
+                <span>{scan.totalLinks} links</span>
+                <span className="text-red-600">{scan.brokenLinks} broken</span>
+                <span className="text-orange-600">{scan.suspectedBroken} suspected</span>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="px-6 py-3 text-sm text-red-600 border-t border-gray-200">{error}</p>}
+
+      {diff && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4">
+          {DIFF_GROUPS.every(group => diff[group.key].length === 0) ? (
+            <p className="text-sm text-gray-600">No changes between these scans.</p>
+          ) : (
+            DIFF_GROUPS.filter(group => diff[group.key].length > 0).map(group => (
+              <div key={group.key}>
+                <h4 className={`text-sm font-semibold mb-2 ${group.color}`}>
+                  {group.label} ({diff[group.key].length})
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {diff[group.key].map(change => (
+                    <li key={change.url} className="flex items-center justify-between space-x-4">
+                      <span className="text-gray-900 truncate" title={change.url}>
+                        {change.after?.label ?? change.before?.label ?? change.url}
+                      </span>
+                      <span className="text-gray-500 flex-shrink-0">
+                        {group.key === 'newlyRedirecting'
+                          ? `→ ${change.after?.finalUrl}`
+                          : `${describe(change.before)} → ${describe(change.after)}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Copy, Loader2, Share2 } from 'lucide-react';
+import { REPORT_EXPIRY_CHOICES } from '@/lib/reports';
+import type { ScanResult } from '@/lib/types';
+
+// Publish the scan as a read-only report page and hand out its link
+export default function ShareReport({ result, url }: { result: ScanResult; url?: string }) {
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [isSharing, setIsSharing] = useState(false);
+  const [reportUrl, setReportUrl] = useState('');
+  const [expiresAt, setExpiresAt] = useState<string | undefined>();
+  const [hasCopied, setHasCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const shareReport = async () => {
+    setIsSharing(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ result, url, expiresInDays: REPORT_EXPIRY_CHOICES[expiryIndex].days }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to share report');
+      }
+      setReportUrl(new URL(data.path, window.location.origin).href);
+      setExpiresAt(data.expiresAt);
+      setHasCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(reportUrl);
+      setHasCopied(true);
+    } catch {
+      setError('Could not copy the link; select it and copy it instead');
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 mb-8">
+      {reportUrl ? (
+        <div className="flex flex-col md:flex-row items-center gap-2 w-full max-w-2xl">
+          <input
+            type="text"
+            readOnly
+            value={reportUrl}
+            onFocus={e => e.target.select()}
+            aria-label="Report link"
+            className="flex-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50 text-gray-700"
+          />
+          <button
+            onClick={copyLink}
+            className="inline-flex items-center space-x-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition-colors duration-200"
+          >
+            {hasCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            <span>{hasCopied ? 'Copied' : 'Copy Link'}</span>
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row items-center gap-2">
+          <select
+            value={expiryIndex}
+            onChange={e => setExpiryIndex(Number(e.target.value))}
+            aria-label="Report expiry"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {REPORT_EXPIRY_CHOICES.map((choice, index) => (
+              <option key={choice.label} value={index}>
+                {choice.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={shareReport}
+            disabled={isSharing}
+            className="inline-flex items-center space-x-2 text-sm font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSharing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+            <span>Share Report</span>
+          </button>
+        </div>
+      )}
+      {reportUrl && (
+        <p className="text-xs text-gray-500">
+          Anyone with the link can view this report{expiresAt ? ` until ${new Date(expiresAt).toLocaleString()}` : ''}.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { LinkCounts } from '@/lib/types';
+
+const CARD_CLASS = 'bg-white rounded-2xl shadow-lg border border-gray-200/50 p-6 text-center transform hover:scale-105 transition-transform duration-200';
+
+export function healthScoreColor(score: number): string {
+  return score >= 90 ? 'text-green-600' : score >= 70 ? 'text-yellow-600' : 'text-red-600';
+}
+
+// Headline counts for a single scan; cards for rare outcomes only show up when something had them
+export default function SummaryCards({ counts }: { counts: LinkCounts }) {
+  const cards = [
+    { label: 'Health Score', value: `${counts.healthScore}/100`, color: healthScoreColor(counts.healthScore) },
+    { label: 'Total Links', value: counts.totalLinks, color: 'text-gray-900' },
+    { label: 'Working', value: counts.workingLinks, color: 'text-green-600' },
+    { label: 'Redirects', value: counts.redirects, color: 'text-yellow-600' },
+    { label: 'Suspected', value: counts.suspectedBroken, color: 'text-orange-600' },
+    { label: 'Broken', value: counts.brokenLinks, color: 'text-red-600' },
+    ...(counts.rateLimited > 0 ? [{ label: 'Rate Limited', value: counts.rateLimited, color: 'text-blue-600' }] : []),
+    ...(counts.blockedLinks > 0 ? [{ label: 'Blocked', value: counts.blockedLinks, color: 'text-gray-600' }] : []),
+    ...(counts.flaggedLinks > 0 ? [{ label: 'Flagged', value: counts.flaggedLinks, color: 'text-amber-600' }] : []),
+  ];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-6 gap-6 mb-12">
+      {cards.map(card => (
+        <div key={card.label} className={CARD_CLASS}>
+          <div className={`text-3xl font-bold mb-2 ${card.color}`}>{card.value}</div>
+          <div className="text-gray-600 font-medium">{card.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
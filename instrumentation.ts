@@ -0,0 +1,14 @@
+// Start checking monitored bio pages and deleting expired reports when a Node.js server boots
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { startReportSweeper } = await import('./lib/storage');
+  startReportSweeper();
+
+  if (process.env.CLEAROUT_MONITOR_LOOP !== 'off') {
+    const { startMonitorLoop } = await import('./lib/monitor');
+    startMonitorLoop();
+  }
+}
@@ -0,0 +1,47 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+export interface ApiKey {
+  // Name the key was configured under; scans are scoped to it
+  id: string;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// CLEAROUT_API_KEYS holds comma-separated name:key pairs, e.g. "ci:sk_live_123,scripts:sk_live_456"
+function configuredKeys(): { id: string; hash: Buffer }[] {
+  return (process.env.CLEAROUT_API_KEYS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        return [];
+      }
+      return [{ id: entry.slice(0, separator), hash: digest(entry.slice(separator + 1)) }];
+    });
+}
+
+// Read the key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function presentedKey(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim();
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+// Returns the key a request authenticated with, or null. Keys are compared as hashes in
+// constant time so response timing doesn't reveal how much of a guess was right.
+export function authenticate(request: Request): ApiKey | null {
+  const key = presentedKey(request);
+  if (!key) {
+    return null;
+  }
+
+  const hash = digest(key);
+  const match = configuredKeys().find(candidate => timingSafeEqual(candidate.hash, hash));
+  return match ? { id: match.id } : null;
+}
@@ -0,0 +1,72 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { authenticate, type ApiKey } from './auth';
+import { RateLimiter, rateLimitHeaders, type RateLimitResult } from './rate-limit';
+import { apiError } from './responses';
+
+// Requests per minute from one client address, counted before authentication so key guessing is throttled too
+const ipLimiter = new RateLimiter(60, 60 * 1000);
+
+// Requests per minute for one API key, across every address using it
+const keyLimiter = new RateLimiter(30, 60 * 1000);
+
+// How many reverse proxies in front of the app append to X-Forwarded-For. Without any, the header is
+// whatever the client sent and can't be trusted.
+function trustedProxyHops(): number {
+  const hops = Number(process.env.CLEAROUT_TRUSTED_PROXY_HOPS ?? 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// The address rate limits are counted against. Behind trusted proxies that's the entry the outermost one
+// appended, counting from the right; anything further left was supplied by the client.
+export function clientIp(request: NextRequest): string {
+  const hops = trustedProxyHops();
+  if (hops > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map(hop => hop.trim())
+      .filter(Boolean);
+    if (forwarded.length >= hops) return forwarded[forwarded.length - hops];
+  }
+  return request.ip || 'unknown';
+}
+
+function withHeaders(response: NextResponse, limit: RateLimitResult): NextResponse {
+  for (const [name, value] of Object.entries(rateLimitHeaders(limit))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Authenticate and rate limit a v1 request before handing it to the endpoint. Every response
+// carries the RateLimit-* headers of whichever limit is closer to running out.
+export async function withApiKey(
+  request: NextRequest,
+  handler: (key: ApiKey) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const ipLimit = ipLimiter.take(clientIp(request));
+  if (!ipLimit.allowed) {
+    return withHeaders(apiError(429, 'rate_limited', 'Too many requests from this address'), ipLimit);
+  }
+
+  const key = authenticate(request);
+  if (!key) {
+    return withHeaders(
+      apiError(401, 'unauthorized', 'A valid API key is required', undefined, { 'WWW-Authenticate': 'Bearer' }),
+      ipLimit
+    );
+  }
+
+  const keyLimit = keyLimiter.take(key.id);
+  if (!keyLimit.allowed) {
+    return withHeaders(apiError(429, 'rate_limited', 'Too many requests for this API key'), keyLimit);
+  }
+
+  const tightest = keyLimit.remaining <= ipLimit.remaining ? keyLimit : ipLimit;
+
+  try {
+    return withHeaders(await handler(key), tightest);
+  } catch (error) {
+    console.error('Error handling API request:', error);
+    return withHeaders(apiError(500, 'internal_error', 'Internal server error'), tightest);
+  }
+}
@@ -0,0 +1,93 @@
+import type { ApiErrorCode } from './responses';
+import { createScanRequestSchema, errorResponseSchema, scanSchema } from './schemas';
+
+const RATE_LIMIT_HEADERS = {
+  'RateLimit-Limit': { description: 'Requests allowed in the current window', schema: { type: 'integer' } },
+  'RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+  'RateLimit-Reset': { description: 'Seconds until the window resets', schema: { type: 'integer' } },
+};
+
+function errorResponse(description: string, codes: ApiErrorCode[]) {
+  return {
+    description: `${description} (${codes.join(', ')})`,
+    headers: RATE_LIMIT_HEADERS,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+}
+
+const COMMON_ERRORS = {
+  401: errorResponse('Missing or invalid API key', ['unauthorized']),
+  429: {
+    ...errorResponse('Rate limit exceeded', ['rate_limited']),
+    headers: {
+      ...RATE_LIMIT_HEADERS,
+      'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } },
+    },
+  },
+  500: errorResponse('Unexpected server error', ['internal_error']),
+};
+
+// OpenAPI 3.0 description of the v1 API, generated from the same schemas that validate requests
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'ClearOut.bio API',
+      version: '1.0.0',
+      description: 'Scan bio pages for broken, redirecting and suspicious links.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/scans': {
+        post: {
+          summary: 'Scan a bio page',
+          operationId: 'createScan',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: createScanRequestSchema.toJsonSchema() } },
+          },
+          responses: {
+            201: {
+              description: 'The finished scan',
+              headers: {
+                ...RATE_LIMIT_HEADERS,
+                Location: { description: 'URL of the saved scan', schema: { type: 'string' } },
+              },
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Scan' } } },
+            },
+            400: errorResponse('Malformed request', ['invalid_json', 'invalid_request']),
+            422: errorResponse('The bio page could not be fetched', ['page_fetch_failed']),
+            504: errorResponse('The bio page took too long to respond', ['page_timeout']),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      '/scans/{id}': {
+        get: {
+          summary: 'Fetch a saved scan',
+          operationId: 'getScan',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: {
+              description: 'The saved scan',
+              headers: RATE_LIMIT_HEADERS,
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Scan' } } },
+            },
+            404: errorResponse('No scan with this id belongs to the API key', ['not_found']),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key, also accepted in an X-API-Key header' },
+      },
+      schemas: {
+        Scan: scanSchema.toJsonSchema(),
+        Error: errorResponseSchema.toJsonSchema(),
+      },
+    },
+  };
+}
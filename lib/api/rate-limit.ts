@@ -0,0 +1,63 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window resets
+  resetSeconds: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window request counter kept in memory, so limits apply per server instance
+export class RateLimiter {
+  private readonly windows = new Map<string, Window>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  take(key: string): RateLimitResult {
+    const now = Date.now();
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    const allowed = window.count < this.limit;
+    if (allowed) {
+      window.count++;
+    }
+
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: this.limit - window.count,
+      resetSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  }
+
+  private prune(now: number): void {
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+// Standard RateLimit-* headers, plus Retry-After once the limit is hit
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    ...(result.allowed ? {} : { 'Retry-After': String(result.resetSeconds) }),
+  };
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import type { Issue } from './schema';
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'not_found'
+  | 'page_fetch_failed'
+  | 'page_timeout'
+  | 'internal_error';
+
+// Every v1 error has the same body: { error: { code, message, details? } }
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: Issue[],
+  headers?: HeadersInit
+): NextResponse {
+  return NextResponse.json({ error: { code, message, details } }, { status, headers });
+}
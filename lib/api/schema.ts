@@ -0,0 +1,309 @@
+// A small schema builder: each schema validates untrusted JSON and describes itself as JSON Schema,
+// so request validation and the OpenAPI document can't drift apart.
+
+export type JsonSchema = { [key: string]: unknown };
+
+export interface Issue {
+  path: string;
+  message: string;
+}
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; issues: Issue[] };
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): ParseResult<T>;
+  toJsonSchema(): JsonSchema;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = { [key: string]: Schema<unknown> };
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+type ObjectOf<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+interface Meta {
+  description?: string;
+}
+
+function fail<T>(path: string, message: string): ParseResult<T> {
+  return { success: false, issues: [{ path: path || '(body)', message }] };
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function withMeta(schema: JsonSchema, meta: Meta): JsonSchema {
+  return meta.description ? { ...schema, description: meta.description } : schema;
+}
+
+export function string(options: Meta & { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string') {
+        return fail(path, `expected a string, got ${typeName(value)}`);
+      }
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        return fail(path, `must be at least ${options.minLength} characters`);
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return fail(path, `must be at most ${options.maxLength} characters`);
+      }
+      return { success: true, data: value };
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'string', minLength: options.minLength, maxLength: options.maxLength }, options);
+    },
+  };
+}
+
+// An absolute http(s) URL; surrounding whitespace is trimmed
+export function httpUrl(options: Meta = {}): Schema<string> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string') {
+        return fail(path, `expected a URL string, got ${typeName(value)}`);
+      }
+      const trimmed = value.trim();
+      try {
+        const url = new URL(trimmed);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return fail(path, 'must be an http or https URL');
+        }
+      } catch {
+        return fail(path, 'must be a valid URL');
+      }
+      return { success: true, data: trimmed };
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'string', format: 'uri' }, options);
+    },
+  };
+}
+
+export function boolean(options: Meta = {}): Schema<boolean> {
+  return {
+    parse(value, path = '') {
+      return typeof value === 'boolean' ? { success: true, data: value } : fail(path, `expected a boolean, got ${typeName(value)}`);
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'boolean' }, options);
+    },
+  };
+}
+
+export function integer(options: Meta & { minimum?: number; maximum?: number } = {}): Schema<number> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return fail(path, `expected an integer, got ${typeName(value)}`);
+      }
+      if (options.minimum !== undefined && value < options.minimum) {
+        return fail(path, `must be at least ${options.minimum}`);
+      }
+      if (options.maximum !== undefined && value > options.maximum) {
+        return fail(path, `must be at most ${options.maximum}`);
+      }
+      return { success: true, data: value };
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'integer', minimum: options.minimum, maximum: options.maximum }, options);
+    },
+  };
+}
+
+export function number(options: Meta = {}): Schema<number> {
+  return {
+    parse(value, path = '') {
+      return typeof value === 'number' && Number.isFinite(value)
+        ? { success: true, data: value }
+        : fail(path, `expected a number, got ${typeName(value)}`);
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'number' }, options);
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[], options: Meta = {}): Schema<T> {
+  return {
+    parse(value, path = '') {
+      return values.includes(value as T)
+        ? { success: true, data: value as T }
+        : fail(path, `must be one of ${values.join(', ')}`);
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'string', enum: values }, options);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: Meta & { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path = '') {
+      if (!Array.isArray(value)) {
+        return fail(path, `expected an array, got ${typeName(value)}`);
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        return fail(path, `must contain at least ${options.minItems} item${options.minItems !== 1 ? 's' : ''}`);
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        return fail(path, `must contain at most ${options.maxItems} items`);
+      }
+
+      const data: T[] = [];
+      const issues: Issue[] = [];
+      value.forEach((entry, index) => {
+        const result = item.parse(entry, `${path}[${index}]`);
+        if (result.success) {
+          data.push(result.data);
+        } else {
+          issues.push(...result.issues);
+        }
+      });
+      return issues.length > 0 ? { success: false, issues } : { success: true, data };
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'array', items: item.toJsonSchema(), minItems: options.minItems, maxItems: options.maxItems }, options);
+    },
+  };
+}
+
+// A map with arbitrary keys and uniform values
+export function record<T>(value: Schema<T>, options: Meta = {}): Schema<{ [key: string]: T }> {
+  return {
+    parse(input, path = '') {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return fail(path, `expected an object, got ${typeName(input)}`);
+      }
+
+      const data: { [key: string]: T } = {};
+      const issues: Issue[] = [];
+      for (const [key, entry] of Object.entries(input)) {
+        const result = value.parse(entry, path ? `${path}.${key}` : key);
+        if (result.success) {
+          data[key] = result.data;
+        } else {
+          issues.push(...result.issues);
+        }
+      }
+      return issues.length > 0 ? { success: false, issues } : { success: true, data };
+    },
+    toJsonSchema() {
+      return withMeta({ type: 'object', additionalProperties: value.toJsonSchema() }, options);
+    },
+  };
+}
+
+// Unknown properties are rejected so typos in option names don't go unnoticed
+export function object<S extends Shape>(shape: S, options: Meta = {}): Schema<ObjectOf<S>> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, `expected an object, got ${typeName(value)}`);
+      }
+
+      const input = value as { [key: string]: unknown };
+      const data: { [key: string]: unknown } = {};
+      const issues: Issue[] = [];
+
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) {
+          issues.push({ path: path ? `${path}.${key}` : key, message: 'is not a recognized field' });
+        }
+      }
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (input[key] === undefined && !('optional' in schema)) {
+          issues.push({ path: fieldPath, message: 'is required' });
+          continue;
+        }
+        const result = schema.parse(input[key], fieldPath);
+        if (result.success) {
+          if (result.data !== undefined) data[key] = result.data;
+        } else {
+          issues.push(...result.issues);
+        }
+      }
+
+      return issues.length > 0 ? { success: false, issues } : { success: true, data: data as ObjectOf<S> };
+    },
+    toJsonSchema() {
+      const required = Object.entries(shape).filter(([, schema]) => !('optional' in schema)).map(([key]) => key);
+      return withMeta(
+        {
+          type: 'object',
+          properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.toJsonSchema()])),
+          required: required.length > 0 ? required : undefined,
+          additionalProperties: false,
+        },
+        options
+      );
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    parse(value, path = '') {
+      return value === undefined ? { success: true, data: undefined } : schema.parse(value, path);
+    },
+    toJsonSchema() {
+      return schema.toJsonSchema();
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path = '') {
+      return value === null ? { success: true, data: null } : schema.parse(value, path);
+    },
+    toJsonSchema() {
+      return { ...schema.toJsonSchema(), nullable: true };
+    },
+  };
+}
+
+// The first of `schemas` the value matches; when none does, the issues are the last schema's
+export function anyOf<S extends Schema<unknown>[]>(schemas: [...S], options: Meta = {}): Schema<Infer<S[number]>> {
+  return {
+    parse(value, path = '') {
+      let result: ParseResult<unknown> = fail(path, 'matches no allowed type');
+      for (const schema of schemas) {
+        result = schema.parse(value, path);
+        if (result.success) break;
+      }
+      return result as ParseResult<Infer<S[number]>>;
+    },
+    toJsonSchema() {
+      return withMeta({ anyOf: schemas.map(schema => schema.toJsonSchema()) }, options);
+    },
+  };
+}
+
+// Read a request's JSON body and parse it, so a missing or malformed body is an issue rather than a throw
+export async function parseJsonBody<T>(request: Request, schema: Schema<T>): Promise<ParseResult<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return fail('', 'must be valid JSON');
+  }
+  return schema.parse(body);
+}
+
+// Format issues as one line, e.g. "url: must be a valid URL; stream: expected a boolean, got string"
+export function formatIssues(issues: Issue[]): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
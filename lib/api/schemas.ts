@@ -0,0 +1,260 @@
+import { ERROR_KINDS, type ErrorKind } from '../errors';
+import { DEFAULT_CRAWL_OPTIONS, MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '../crawler';
+import { EXPORT_FORMATS } from '../export';
+import { DEFAULT_GRADING_RULES, HEALTH_ISSUES, type HealthIssueKind } from '../grading';
+import type { ScanInput } from '../inputs';
+import { MAX_REPORT_EXPIRY_DAYS } from '../reports';
+import { RESOURCE_KINDS, type ResourceKind } from '../resources';
+import { SAFETY_FLAGS, type SafetyFlag } from '../safety/flags';
+import { DEFAULT_SCAN_OPTIONS, SCAN_OPTION_LIMITS } from '../scan-options';
+import type { LinkClassification } from '../types';
+import { anyOf, array, boolean, httpUrl, integer, nullable, number, object, oneOf, optional, record, string, type Infer } from './schema';
+
+const CLASSIFICATIONS: LinkClassification[] = [
+  'working',
+  'redirect',
+  'suspected-broken',
+  'broken',
+  'redirect-loop',
+  'too-many-redirects',
+  'rate-limited',
+  'blocked',
+];
+
+// Pasted or uploaded HTML is capped at the same size as a fetched page
+const MAX_HTML_LENGTH = 5 * 1024 * 1024;
+
+const crawlSchema = object(
+  {
+    maxDepth: optional(
+      integer({ minimum: 0, maximum: MAX_CRAWL_DEPTH, description: `Link hops from url (default ${DEFAULT_CRAWL_OPTIONS.maxDepth})` })
+    ),
+    maxPages: optional(
+      integer({ minimum: 1, maximum: MAX_CRAWL_PAGES, description: `Most pages fetched (default ${DEFAULT_CRAWL_OPTIONS.maxPages})` })
+    ),
+  },
+  { description: 'Also follow same-origin links from url, honoring robots.txt, and check the links on those pages' }
+);
+
+const patternsSchema = (description: string) =>
+  optional(
+    array(string({ minLength: 1, maxLength: SCAN_OPTION_LIMITS.patternLength }), {
+      maxItems: SCAN_OPTION_LIMITS.patterns,
+      description,
+    })
+  );
+
+export const scanOptionsSchema = object(
+  {
+    linkTimeoutMs: optional(
+      integer({ ...SCAN_OPTION_LIMITS.linkTimeoutMs, description: `Per link check (default ${DEFAULT_SCAN_OPTIONS.linkTimeoutMs})` })
+    ),
+    pageTimeoutMs: optional(
+      integer({ ...SCAN_OPTION_LIMITS.pageTimeoutMs, description: `For fetching pages and sitemaps (default ${DEFAULT_SCAN_OPTIONS.pageTimeoutMs})` })
+    ),
+    concurrency: optional(
+      integer({ ...SCAN_OPTION_LIMITS.concurrency, description: `Links checked at once (default ${DEFAULT_SCAN_OPTIONS.concurrency})` })
+    ),
+    perHostConcurrency: optional(
+      integer({
+        ...SCAN_OPTION_LIMITS.perHostConcurrency,
+        description: `Links checked at once on one host (default ${DEFAULT_SCAN_OPTIONS.perHostConcurrency})`,
+      })
+    ),
+    userAgent: optional(string({ maxLength: 500, description: 'User-Agent sent with every request; blank sends the default' })),
+    headers: optional(record(string({ maxLength: 4096 }), { description: 'Extra request headers' })),
+    include: patternsSchema('Only check links matching one of these globs or /regex/ patterns'),
+    exclude: patternsSchema('Skip links matching any of these globs or /regex/ patterns'),
+    sameDomainRedirectsOk: optional(boolean({ description: 'Count redirects within the same site as working' })),
+    validateContactLinks: optional(boolean({ description: 'Check the syntax of mailto: and tel: links' })),
+    grading: optional(
+      object({
+        slowMs: optional(integer({ minimum: 1, description: `Working links slower than this are slow (default ${DEFAULT_GRADING_RULES.slowMs})` })),
+        degradedMs: optional(
+          integer({ minimum: 1, description: `Working links slower than this are degraded (default ${DEFAULT_GRADING_RULES.degradedMs})` })
+        ),
+        certificateWarningDays: optional(
+          integer({
+            minimum: 0,
+            maximum: 365,
+            description: `Warn when a certificate expires within this many days (default ${DEFAULT_GRADING_RULES.certificateWarningDays})`,
+          })
+        ),
+      })
+    ),
+  },
+  { description: 'How links are fetched, filtered and graded' }
+);
+
+// The ways to say what a single scan should check; a request picks exactly one of url, html, links and sitemap
+const scanInputFields = {
+  url: optional(httpUrl({ description: 'Bio page to fetch and scan' })),
+  crawl: optional(crawlSchema),
+  html: optional(string({ maxLength: MAX_HTML_LENGTH, description: 'HTML to scan instead of fetching a page' })),
+  baseUrl: optional(httpUrl({ description: 'Resolves relative links in html; without it they are skipped' })),
+  links: optional(string({ maxLength: MAX_HTML_LENGTH, description: 'Newline-separated list of links to check' })),
+  sitemap: optional(httpUrl({ description: 'sitemap.xml or sitemap index whose URLs should be checked' })),
+  resources: optional(boolean({ description: 'Also check images, icons, embeds and social preview tags' })),
+  options: optional(scanOptionsSchema),
+};
+
+// Pick the scan input a request asked for, or null when it named none or several, or crawl without url
+export function toScanInput(fields: {
+  url?: string;
+  crawl?: Infer<typeof crawlSchema>;
+  html?: string;
+  baseUrl?: string;
+  links?: string;
+  sitemap?: string;
+  resources?: boolean;
+}): ScanInput | null {
+  if (fields.crawl && fields.url === undefined) {
+    return null;
+  }
+
+  const inputs: ScanInput[] = [];
+  if (fields.url !== undefined) {
+    inputs.push(
+      fields.crawl
+        ? { type: 'crawl', url: fields.url, options: { ...DEFAULT_CRAWL_OPTIONS, ...fields.crawl } }
+        : { type: 'url', url: fields.url }
+    );
+  }
+  if (fields.html !== undefined) inputs.push({ type: 'html', html: fields.html, baseUrl: fields.baseUrl });
+  if (fields.links !== undefined) inputs.push({ type: 'links', links: fields.links });
+  if (fields.sitemap !== undefined) inputs.push({ type: 'sitemap', url: fields.sitemap });
+  return inputs.length === 1 ? { ...inputs[0], includeResources: fields.resources } : null;
+}
+
+// Body accepted by /api/scan-links, the endpoint behind the web UI
+export const scanLinksRequestSchema = object({
+  ...scanInputFields,
+  urls: optional(array(string(), { minItems: 1, description: 'Bio pages to scan as one batch' })),
+  stream: optional(boolean({ description: 'Stream results as NDJSON events' })),
+  format: optional(oneOf(EXPORT_FORMATS.map(({ format }) => format), { description: 'Return the scan as a file download' })),
+  save: optional(boolean({ description: 'Keep the result in scan history' })),
+});
+
+export type ScanLinksRequest = Infer<typeof scanLinksRequestSchema>;
+
+// Body accepted by /api/scan-jobs
+export const scanJobRequestSchema = object({
+  ...scanInputFields,
+  save: optional(boolean({ description: 'Keep the result in scan history' })),
+});
+
+export const createScanRequestSchema = object({
+  url: httpUrl({ description: 'Bio page to scan' }),
+  options: optional(scanOptionsSchema),
+});
+
+export type CreateScanRequest = Infer<typeof createScanRequestSchema>;
+
+// Response shapes below describe the API in the OpenAPI document. scanResultSchema also checks the
+// results browsers send to be shared, since a stored report is rendered on every visit.
+
+const redirectHopSchema = object({
+  url: string(),
+  status: integer(),
+  location: nullable(string()),
+});
+
+const linkResultSchema = object({
+  originalUrl: string({ description: 'URL as it first appears on the bio page' }),
+  finalUrl: string({ description: 'Where the link ends up after redirects' }),
+  status: integer({ description: 'HTTP status of the final response, 0 when no response was received' }),
+  statusText: string(),
+  isWorking: boolean(),
+  isRedirect: boolean(),
+  responseTime: integer({ description: 'Milliseconds' }),
+  classification: oneOf(CLASSIFICATIONS),
+  redirectChain: array(redirectHopSchema),
+  method: oneOf(['HEAD', 'GET'] as const),
+  soft404Reason: optional(string()),
+  retryAfter: optional(number({ description: 'Seconds the host asked us to wait' })),
+  errorCode: optional(string({ description: 'System error code such as ENOTFOUND' })),
+  errorKind: optional(oneOf(Object.keys(ERROR_KINDS) as ErrorKind[])),
+  contentType: optional(string({ description: 'Content-Type of the final response' })),
+  contentLength: optional(integer({ description: 'Size of the final response in bytes, when the server said' })),
+  timing: optional(
+    object(
+      {
+        redirects: integer({ description: 'Milliseconds spent following redirects' }),
+        firstByte: integer({ description: "Milliseconds until the final response's headers arrived" }),
+        total: integer({ description: 'Milliseconds for the whole check' }),
+      },
+      { description: 'Where the response time went' }
+    )
+  ),
+  httpVersion: optional(string({ description: 'HTTP version the final host negotiates' })),
+  certificateExpiresAt: optional(string({ description: "When the final host's TLS certificate expires, ISO 8601" })),
+  health: optional(
+    array(object({ kind: oneOf(Object.keys(HEALTH_ISSUES) as HealthIssueKind[]), reason: string() }), {
+      description: 'Speed and certificate warnings for working links',
+    })
+  ),
+  safety: optional(
+    array(object({ flag: oneOf(Object.keys(SAFETY_FLAGS) as SafetyFlag[]), reason: string() }), {
+      description: 'Blocklist and mixed-content findings',
+    })
+  ),
+  label: optional(string()),
+  anchorText: optional(string()),
+  title: optional(string()),
+  ariaLabel: optional(string()),
+  rel: optional(array(string())),
+  position: integer({ description: 'Order on the page, starting at 0' }),
+  occurrences: integer({ description: 'How many times the link appears on the page' }),
+  kind: oneOf(Object.keys(RESOURCE_KINDS) as ResourceKind[], { description: 'What the URL is used for on the page' }),
+  foundOn: optional(array(string(), { description: 'Pages of a crawled site the link appears on' })),
+  variants: optional(array(string(), { description: 'Every way the link was written, when the page used more than one' })),
+});
+
+export const scanResultSchema = object({
+  totalLinks: integer(),
+  workingLinks: integer(),
+  brokenLinks: integer(),
+  suspectedBroken: integer(),
+  blockedLinks: integer(),
+  rateLimited: integer(),
+  redirects: integer(),
+  brokenByKind: record(integer(), { description: 'Broken links counted by error kind' }),
+  flaggedLinks: integer({ description: 'Links with at least one safety issue' }),
+  flagsByKind: record(integer(), { description: 'Safety issues counted by flag' }),
+  healthScore: integer({ description: 'Overall page health from 0 to 100' }),
+  healthByKind: record(integer(), { description: 'Speed and certificate warnings counted by kind' }),
+  links: array(linkResultSchema),
+});
+
+// One side of a comparison on /api/history/diff
+const scanReferenceSchema = anyOf([string({ minLength: 1, maxLength: 100, description: 'Id of a saved scan' }), scanResultSchema]);
+
+// Body accepted by /api/history/diff
+export const diffScansRequestSchema = object({
+  from: scanReferenceSchema,
+  to: scanReferenceSchema,
+});
+
+// Body accepted by /api/reports
+export const shareReportRequestSchema = object({
+  result: scanResultSchema,
+  url: optional(httpUrl({ description: 'Bio page the scan was of' })),
+  expiresInDays: optional(
+    integer({ minimum: 1, maximum: MAX_REPORT_EXPIRY_DAYS, description: 'Delete the report after this many days' })
+  ),
+});
+
+export const scanSchema = object({
+  id: string(),
+  url: string(),
+  createdAt: string({ description: 'ISO 8601 timestamp' }),
+  result: scanResultSchema,
+});
+
+export const errorResponseSchema = object({
+  error: object({
+    code: string({ description: 'Stable machine-readable error code' }),
+    message: string(),
+    details: optional(array(object({ path: string(), message: string() }))),
+  }),
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { bioPageHref, buildBioPage } from './bio-page';
+
+describe('bioPageHref', () => {
+  it('keeps web, email and phone links as typed', () => {
+    expect(bioPageHref(' https://example.com/shop ')).toBe('https://example.com/shop');
+    expect(bioPageHref('mailto:hi@example.com')).toBe('mailto:hi@example.com');
+    expect(bioPageHref('tel:+15551234567')).toBe('tel:+15551234567');
+  });
+
+  it('adds https:// to a URL typed without a scheme', () => {
+    expect(bioPageHref('example.com/shop')).toBe('https://example.com/shop');
+    expect(bioPageHref('//example.com/')).toBe('https://example.com/');
+    expect(bioPageHref('example.com:8080/shop')).toBe('https://example.com:8080/shop');
+  });
+
+  it('rejects links that could run script and text that is not a URL', () => {
+    expect(bioPageHref('javascript:alert(1)')).toBeUndefined();
+    expect(bioPageHref('data:text/html,hi')).toBeUndefined();
+    expect(bioPageHref('/shop')).toBeUndefined();
+    expect(bioPageHref('my shop')).toBeUndefined();
+  });
+});
+
+describe('buildBioPage', () => {
+  it('writes scheme-less URLs as https links and leaves out unsafe ones', () => {
+    const { content } = buildBioPage(
+      {
+        title: 'My Links',
+        links: [
+          { label: 'Shop', url: 'example.com/shop' },
+          { label: 'Bad', url: 'javascript:alert(1)' },
+        ],
+      },
+      'light'
+    );
+    expect(content).toContain('href="https://example.com/shop"');
+    expect(content).not.toContain('javascript:');
+  });
+});
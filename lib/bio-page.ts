@@ -0,0 +1,175 @@
+import { escapeHtml, type ExportFile } from './export';
+
+export interface BioPageLink {
+  label: string;
+  url: string;
+  // rel values the author set, like "me"; noopener and noreferrer are always added
+  rel?: string[];
+}
+
+export interface BioPage {
+  title: string;
+  description?: string;
+  links: BioPageLink[];
+}
+
+export type BioPageThemeName = 'light' | 'dark' | 'sunset' | 'ocean' | 'minimal';
+
+export interface BioPageTheme {
+  label: string;
+  // Any CSS background, gradients included
+  background: string;
+  text: string;
+  muted: string;
+  button: string;
+  buttonText: string;
+  buttonBorder: string;
+  radius: string;
+  font: string;
+}
+
+const SYSTEM_FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+export const BIO_PAGE_THEMES: Record<BioPageThemeName, BioPageTheme> = {
+  light: {
+    label: 'Light',
+    background: '#f5f5f7',
+    text: '#111827',
+    muted: '#6b7280',
+    button: '#ffffff',
+    buttonText: '#111827',
+    buttonBorder: '#e5e7eb',
+    radius: '14px',
+    font: SYSTEM_FONT,
+  },
+  dark: {
+    label: 'Dark',
+    background: '#0f172a',
+    text: '#f8fafc',
+    muted: '#94a3b8',
+    button: '#1e293b',
+    buttonText: '#f8fafc',
+    buttonBorder: '#334155',
+    radius: '14px',
+    font: SYSTEM_FONT,
+  },
+  sunset: {
+    label: 'Sunset',
+    background: 'linear-gradient(160deg, #f97316 0%, #db2777 55%, #7c3aed 100%)',
+    text: '#ffffff',
+    muted: 'rgba(255, 255, 255, 0.8)',
+    button: 'rgba(255, 255, 255, 0.18)',
+    buttonText: '#ffffff',
+    buttonBorder: 'rgba(255, 255, 255, 0.45)',
+    radius: '999px',
+    font: SYSTEM_FONT,
+  },
+  ocean: {
+    label: 'Ocean',
+    background: 'linear-gradient(180deg, #0ea5e9 0%, #1e3a8a 100%)',
+    text: '#ffffff',
+    muted: 'rgba(255, 255, 255, 0.8)',
+    button: '#ffffff',
+    buttonText: '#1e3a8a',
+    buttonBorder: '#ffffff',
+    radius: '10px',
+    font: SYSTEM_FONT,
+  },
+  minimal: {
+    label: 'Minimal',
+    background: '#ffffff',
+    text: '#000000',
+    muted: '#555555',
+    button: '#ffffff',
+    buttonText: '#000000',
+    buttonBorder: '#000000',
+    radius: '0',
+    font: "Georgia, 'Times New Roman', serif",
+  },
+};
+
+// Typed-in URLs end up as hrefs, so anything that could run script is left out
+const SAFE_PROTOCOL = /^(https?|mailto|tel):/i;
+// A scheme, as opposed to a host followed by a port
+const ANY_PROTOCOL = /^[a-z][a-z0-9+.-]*:(?!\d)/i;
+
+// The href a typed-in URL becomes on the page. A URL typed without a scheme (example.com/shop) is taken to
+// be https; undefined means the link can't be used and is left out.
+export function bioPageHref(url: string): string | undefined {
+  const trimmed = url.trim();
+  if (SAFE_PROTOCOL.test(trimmed)) {
+    return trimmed;
+  }
+  if (ANY_PROTOCOL.test(trimmed)) {
+    return undefined;
+  }
+  const withoutSlashes = trimmed.replace(/^\/\//, '');
+  return /^[^\s/?#]+\.[^\s/?#]/.test(withoutSlashes) ? `https://${withoutSlashes}` : undefined;
+}
+
+// A complete, self-contained bio page: inline styles only, no scripts and nothing fetched from elsewhere
+export function buildBioPage(page: BioPage, themeName: BioPageThemeName): ExportFile {
+  const theme = BIO_PAGE_THEMES[themeName];
+  const title = escapeHtml(page.title);
+
+  const links = page.links
+    .map(link => ({ ...link, href: bioPageHref(link.url) }))
+    .filter((link): link is BioPageLink & { href: string } => link.href !== undefined)
+    .map(link => {
+      const rel = Array.from(new Set([...(link.rel ?? []), 'noopener', 'noreferrer'])).join(' ');
+      return `      <li><a href="${escapeHtml(link.href)}" target="_blank" rel="${escapeHtml(rel)}">${escapeHtml(link.label || link.href)}</a></li>`;
+    })
+    .join('\n');
+
+  const content = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>${page.description ? `\n  <meta name="description" content="${escapeHtml(page.description)}">` : ''}
+  <meta name="generator" content="ClearOut.bio">
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      margin: 0;
+      min-height: 100vh;
+      background: ${theme.background};
+      color: ${theme.text};
+      font-family: ${theme.font};
+      line-height: 1.5;
+    }
+    main { max-width: 560px; margin: 0 auto; padding: 56px 20px; text-align: center; }
+    h1 { font-size: 1.75rem; margin: 0 0 8px; }
+    p { color: ${theme.muted}; margin: 0 0 32px; }
+    ul { list-style: none; margin: 0; padding: 0; }
+    li { margin: 0 0 14px; }
+    a {
+      display: block;
+      padding: 16px 20px;
+      background: ${theme.button};
+      color: ${theme.buttonText};
+      border: 2px solid ${theme.buttonBorder};
+      border-radius: ${theme.radius};
+      font-weight: 600;
+      text-decoration: none;
+      word-break: break-word;
+      transition: transform 0.15s ease;
+    }
+    a:hover, a:focus-visible { transform: scale(1.02); }
+    footer { margin-top: 40px; font-size: 0.8rem; color: ${theme.muted}; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${title}</h1>${page.description ? `\n    <p>${escapeHtml(page.description)}</p>` : ''}
+    <ul>
+${links}
+    </ul>
+    <footer>Links checked with ClearOut.bio</footer>
+  </main>
+</body>
+</html>
+`;
+
+  return { filename: 'bio-page.html', mimeType: 'text/html', content };
+}
@@ -0,0 +1,23 @@
+// Framework-agnostic entry point to the scanner, shared by the web app, the API and the CLI.
+// Nothing reachable from here may import Next.js.
+
+export { crawlSite, DEFAULT_CRAWL_OPTIONS, MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES, type CrawlOptions } from './crawler';
+export { ERROR_KINDS, type ErrorKind } from './errors';
+export { dedupeLinks, extractLinks, registerExtractor, type ExtractedLink, type LinkExtractor } from './extractors';
+export { DEFAULT_GRADING_RULES, gradeLink, HEALTH_ISSUES, healthScore, type GradingRules, type HealthIssue, type HealthIssueKind } from './grading';
+export { loadLinks, scanInput, type ScanInput } from './inputs';
+export { contentTypeProblem, RESOURCE_KINDS, type ResourceKind } from './resources';
+export {
+  compilePattern,
+  DEFAULT_SCAN_OPTIONS,
+  filterLinks,
+  resolveScanOptions,
+  SCAN_OPTION_LIMITS,
+  type ScanOptions,
+  type ScanOptionsInput,
+} from './scan-options';
+export { checkLink, checkLinks, fetchPage, scanHtml, scanPage, type PageScan, type ScanPageHooks } from './scanner';
+export { applySafetyChecks, registerSafetyCheck, SAFETY_FLAGS, type SafetyCheck, type SafetyFlag, type SafetyIssue } from './safety';
+export { countLinks, isBroken, summarize } from './summary';
+export type { LinkClassification, LinkResult, LinkTiming, RedirectHop, ScanResult } from './types';
+export { canonicalizeUrl, DEFAULT_CANONICAL_RULES, isValidUrl, normalizeUrl, type CanonicalRules } from './url';
@@ -0,0 +1,119 @@
+import { extractLinks, type ExtractedLink, type ExtractOptions } from './extractors';
+import type { LoadedLinks } from './inputs';
+import { fetchRobots, type RobotsPolicy } from './robots';
+import { DEFAULT_SCAN_OPTIONS, type ScanOptions } from './scan-options';
+import { fetchPage, type PageFetch } from './scanner';
+import { canonicalizeUrl } from './url';
+
+export interface CrawlOptions {
+  // Link hops followed from the start page; 0 scans the start page only
+  maxDepth: number;
+  // Most pages fetched, the start page included
+  maxPages: number;
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = { maxDepth: 2, maxPages: 20 };
+
+export const MAX_CRAWL_DEPTH = 5;
+export const MAX_CRAWL_PAGES = 100;
+
+// Pages of the site fetched at once
+const CRAWL_CONCURRENCY = 3;
+
+type CrawledLink = ExtractedLink & { foundOn: string[] };
+
+// Fragments point into the same document, so they don't make a page worth fetching again
+function pageKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+function isHtmlPage(page: PageFetch): page is Extract<PageFetch, { html: string }> {
+  return 'html' in page && (!page.contentType || page.contentType.includes('text/html'));
+}
+
+// Follow same-origin links breadth-first from `startUrl` and collect every link found on the way,
+// each tagged with the pages it appears on. robots.txt is honored for every page except the start
+// page, which the user asked for explicitly; disallowed pages are still checked as links.
+export async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions,
+  signal?: AbortSignal,
+  extract: ExtractOptions = {},
+  scanOptions: ScanOptions = DEFAULT_SCAN_OPTIONS
+): Promise<LoadedLinks> {
+  const start = await fetchPage(startUrl, signal, scanOptions);
+  if ('error' in start) {
+    return start;
+  }
+
+  // The site is wherever the start page ended up, e.g. after an http -> https redirect
+  const origin = new URL(start.url).origin;
+  const robots: RobotsPolicy = options.maxDepth > 0 ? await fetchRobots(origin, signal, scanOptions) : { isAllowed: () => false };
+  const queued = new Set<string>([pageKey(startUrl)]);
+  // Final URLs of pages already read, so two URLs redirecting to the same page count once
+  const visited = new Set<string>();
+  const found = new Map<string, CrawledLink>();
+  let frontier: string[] = [];
+  let scheduledPages = 1;
+
+  const visit = (page: Extract<PageFetch, { html: string }>, depth: number) => {
+    visited.add(pageKey(page.url));
+    queued.add(pageKey(page.url));
+
+    for (const link of extractLinks(page.html, page.url, extract)) {
+      // Pages may write the same link differently, so links are merged on their canonical form
+      const canonicalUrl = canonicalizeUrl(link.url, extract.rules);
+      const existing = found.get(canonicalUrl);
+      if (existing) {
+        existing.occurrences += link.occurrences;
+        if (!existing.foundOn.includes(page.url)) existing.foundOn.push(page.url);
+        const variants = new Set([...(existing.variants ?? [existing.url]), ...(link.variants ?? [link.url])]);
+        if (variants.size > 1) {
+          existing.variants = Array.from(variants);
+        }
+      } else {
+        found.set(canonicalUrl, { ...link, position: found.size, foundOn: [page.url] });
+      }
+
+      if (depth >= options.maxDepth || scheduledPages >= options.maxPages) continue;
+      const target = new URL(link.url);
+      const key = pageKey(link.url);
+      if (link.kind === 'link' && target.origin === origin && !queued.has(key) && robots.isAllowed(link.url)) {
+        queued.add(key);
+        frontier.push(key);
+        scheduledPages++;
+      }
+    }
+  };
+
+  visit(start, 0);
+
+  for (let depth = 1; depth <= options.maxDepth && frontier.length > 0; depth++) {
+    const urls = frontier;
+    frontier = [];
+
+    for (let i = 0; i < urls.length; i += CRAWL_CONCURRENCY) {
+      const pages = await Promise.all(
+        urls.slice(i, i + CRAWL_CONCURRENCY).map(async url => {
+          try {
+            return await fetchPage(url, signal, scanOptions);
+          } catch (error) {
+            if (signal?.aborted) throw error;
+            return null;
+          }
+        })
+      );
+
+      // Pages that failed, redirected off-site or aren't HTML are only reported through their link's check
+      for (const page of pages) {
+        if (page && isHtmlPage(page) && new URL(page.url).origin === origin && !visited.has(pageKey(page.url))) {
+          visit(page, depth);
+        }
+      }
+    }
+  }
+
+  return { links: Array.from(found.values()) };
+}
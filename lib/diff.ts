@@ -0,0 +1,51 @@
+import { isBroken } from './summary';
+import type { LinkResult, ScanResult } from './types';
+
+// A link as it was in the earlier scan and/or the later one
+export interface LinkChange {
+  url: string;
+  before?: LinkResult;
+  after?: LinkResult;
+}
+
+export interface ScanDiff {
+  newlyBroken: LinkChange[];
+  newlyFixed: LinkChange[];
+  newlyRedirecting: LinkChange[];
+  added: LinkChange[];
+  removed: LinkChange[];
+}
+
+function isRedirecting(link: LinkResult): boolean {
+  return link.classification === 'redirect';
+}
+
+// Compare two scans of the same bio page, matching links by their URL on the page
+export function diffScans(before: ScanResult, after: ScanResult): ScanDiff {
+  const diff: ScanDiff = { newlyBroken: [], newlyFixed: [], newlyRedirecting: [], added: [], removed: [] };
+  const previous = new Map(before.links.map(link => [link.originalUrl, link]));
+  const current = new Set(after.links.map(link => link.originalUrl));
+
+  for (const link of after.links) {
+    const earlier = previous.get(link.originalUrl);
+    const change: LinkChange = { url: link.originalUrl, before: earlier, after: link };
+
+    if (!earlier) {
+      diff.added.push(change);
+    } else if (isBroken(link) && !isBroken(earlier)) {
+      diff.newlyBroken.push(change);
+    } else if (!isBroken(link) && isBroken(earlier)) {
+      diff.newlyFixed.push(change);
+    } else if (isRedirecting(link) && (!isRedirecting(earlier) || link.finalUrl !== earlier.finalUrl)) {
+      diff.newlyRedirecting.push(change);
+    }
+  }
+
+  for (const link of before.links) {
+    if (!current.has(link.originalUrl)) {
+      diff.removed.push({ url: link.originalUrl, before: link });
+    }
+  }
+
+  return diff;
+}
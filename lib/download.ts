@@ -0,0 +1,14 @@
+import type { ExportFile } from './export';
+
+// Helper function to save a generated file from the browser
+export function downloadFile(file: ExportFile): void {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = file.filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
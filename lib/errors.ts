@@ -0,0 +1,176 @@
+export type ErrorKind =
+  | 'dns'
+  | 'timeout'
+  | 'tls'
+  | 'refused'
+  | 'reset'
+  | 'aborted'
+  | 'network'
+  | 'blocked'
+  | 'redirect-loop'
+  | 'too-many-redirects'
+  | 'not-found'
+  | 'gone'
+  | 'forbidden'
+  | 'client-error'
+  | 'server-error'
+  | 'rate-limited'
+  | 'invalid-contact';
+
+export interface ErrorKindInfo {
+  label: string;
+  explanation: string;
+  suggestion: string;
+}
+
+export const ERROR_KINDS: Record<ErrorKind, ErrorKindInfo> = {
+  dns: {
+    label: 'Domain not found',
+    explanation: "The link's domain name doesn't resolve to any server.",
+    suggestion: 'Check the domain for typos. If it expired or the site shut down, remove the link or point it somewhere else.',
+  },
+  timeout: {
+    label: 'Timed out',
+    explanation: "The server didn't answer within the time limit.",
+    suggestion: 'Open the link yourself; if it is just slow, consider whether visitors will wait for it. Otherwise replace it.',
+  },
+  tls: {
+    label: 'Certificate problem',
+    explanation: "The site's HTTPS certificate is expired, self-signed or doesn't match the domain.",
+    suggestion: 'Visitors will see a security warning. Ask the site owner to renew the certificate, or link to a different page.',
+  },
+  refused: {
+    label: 'Connection refused',
+    explanation: 'The server exists but nothing is accepting connections.',
+    suggestion: 'The site is probably down. Try again later, and remove the link if it stays down.',
+  },
+  reset: {
+    label: 'Connection dropped',
+    explanation: 'The server closed the connection before answering.',
+    suggestion: 'This is often temporary or caused by bot protection. Open the link in a browser to confirm.',
+  },
+  aborted: {
+    label: 'Cancelled',
+    explanation: 'The check was stopped before it finished.',
+    suggestion: 'Run the scan again to check this link.',
+  },
+  network: {
+    label: 'Network error',
+    explanation: 'The request failed before the server sent a response.',
+    suggestion: 'Open the link in a browser to see whether it loads.',
+  },
+  blocked: {
+    label: 'Blocked',
+    explanation: "The link points at a private or internal address, or uses a scheme or port that isn't checked.",
+    suggestion: 'Visitors outside your network cannot reach it. Replace it with a public URL.',
+  },
+  'redirect-loop': {
+    label: 'Redirect loop',
+    explanation: 'The link keeps redirecting back to a page it already visited.',
+    suggestion: 'Link directly to the final destination, or ask the site owner to fix the redirect.',
+  },
+  'too-many-redirects': {
+    label: 'Too many redirects',
+    explanation: 'The link passes through so many redirects that browsers give up.',
+    suggestion: 'Link directly to the final destination instead of the redirecting URL.',
+  },
+  'not-found': {
+    label: 'Page not found',
+    explanation: 'The server says this page does not exist (404).',
+    suggestion: 'The page was moved or deleted. Find its new address or remove the link.',
+  },
+  gone: {
+    label: 'Page removed',
+    explanation: 'The server says this page was deliberately removed (410).',
+    suggestion: 'Remove the link or replace it with an archived copy.',
+  },
+  forbidden: {
+    label: 'Access denied',
+    explanation: 'The server refused the request (401/403). It may need a login or block automated checks.',
+    suggestion: 'Open the link in a private browser window. If it works there, it is only blocking our checker.',
+  },
+  'client-error': {
+    label: 'Request rejected',
+    explanation: 'The server rejected the request with a 4xx error.',
+    suggestion: 'Open the link in a browser to see what the site expects.',
+  },
+  'server-error': {
+    label: 'Server error',
+    explanation: 'The server failed while answering (5xx).',
+    suggestion: 'This is often temporary. Check again later and remove the link if it keeps failing.',
+  },
+  'rate-limited': {
+    label: 'Rate limited',
+    explanation: 'The site asked us to slow down (429), so the link could not be verified.',
+    suggestion: 'The link most likely works. Re-run the scan later to confirm.',
+  },
+  'invalid-contact': {
+    label: 'Invalid contact link',
+    explanation: "The mailto: or tel: link isn't a valid email address or phone number, so tapping it won't work.",
+    suggestion: 'Fix the address or number after mailto: or tel:.',
+  },
+};
+
+const TLS_ERROR_CODES = [
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+// fetch wraps network failures in a generic TypeError; the system error code lives on its cause
+export function getErrorCode(error: unknown): string | undefined {
+  if (!(error instanceof Error)) {
+    return undefined;
+  }
+
+  // Connecting to a host with several addresses fails with an AggregateError of per-address errors
+  const cause = error.cause as { code?: unknown; errors?: { code?: unknown }[] } | undefined;
+  const code = cause?.code ?? cause?.errors?.[0]?.code;
+  return typeof code === 'string' ? code : error.name;
+}
+
+// Map a thrown fetch error to an error kind
+export function errorKindForError(error: unknown): ErrorKind {
+  const code = getErrorCode(error);
+
+  switch (code) {
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+    case 'EAI_NODATA':
+      return 'dns';
+    case 'ECONNREFUSED':
+      return 'refused';
+    case 'ECONNRESET':
+    case 'EPIPE':
+    case 'UND_ERR_SOCKET':
+      return 'reset';
+    case 'ETIMEDOUT':
+    case 'UND_ERR_CONNECT_TIMEOUT':
+    case 'UND_ERR_HEADERS_TIMEOUT':
+    case 'TimeoutError':
+      return 'timeout';
+    case 'AbortError':
+      return 'aborted';
+  }
+
+  if (code && (TLS_ERROR_CODES.includes(code) || code.startsWith('ERR_TLS_') || code.startsWith('ERR_SSL_') || code.includes('CERT'))) {
+    return 'tls';
+  }
+
+  return 'network';
+}
+
+// Map an HTTP error status to an error kind
+export function errorKindForStatus(status: number): ErrorKind | undefined {
+  if (status === 404) return 'not-found';
+  if (status === 410) return 'gone';
+  if (status === 401 || status === 403) return 'forbidden';
+  if (status === 429) return 'rate-limited';
+  if (status >= 400 && status < 500) return 'client-error';
+  if (status >= 500) return 'server-error';
+  return undefined;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { exportScan, keepsLink } from './export';
+import { summarize } from './summary';
+import type { LinkResult } from './types';
+
+function link(url: string, changes: Partial<LinkResult> = {}): LinkResult {
+  return {
+    originalUrl: url,
+    finalUrl: url,
+    status: 200,
+    statusText: 'OK',
+    isWorking: true,
+    isRedirect: false,
+    responseTime: 120,
+    classification: 'working',
+    redirectChain: [],
+    method: 'HEAD',
+    position: 0,
+    occurrences: 1,
+    kind: 'link',
+    ...changes,
+  };
+}
+
+const result = summarize([
+  link('https://shop.example.com/', { label: 'Shop', position: 0 }),
+  link('https://example.com/old-post', {
+    label: 'Old post',
+    position: 1,
+    finalUrl: 'https://example.com/',
+    isRedirect: true,
+    classification: 'suspected-broken',
+    soft404Reason: 'Redirected to the homepage',
+  }),
+  link('https://gone.example.com/', { label: 'Gone', position: 2, status: 404, isWorking: false, classification: 'broken' }),
+  link('https://busy.example.com/', { label: 'Busy', position: 3, status: 429, isWorking: false, classification: 'rate-limited' }),
+  link('https://example.com/avatar.png', { position: 4, kind: 'image' }),
+]);
+
+describe('clean exports', () => {
+  it('keeps working and rate-limited links only', () => {
+    expect(result.links.filter(keepsLink).map(link => link.originalUrl)).toEqual([
+      'https://shop.example.com/',
+      'https://busy.example.com/',
+    ]);
+  });
+
+  it('leaves suspected-broken links out of the clean list instead of writing where they landed', () => {
+    const { content } = exportScan(result, 'clean-list');
+    expect(content).not.toContain('Old post');
+    expect(content.trim().split('\n')).toEqual(['Title,URL', 'Shop,https://shop.example.com/', 'Busy,https://busy.example.com/']);
+  });
+
+  it('leaves suspected-broken links out of the HTML export', () => {
+    const { content } = exportScan(result, 'html');
+    expect(content).toContain('https://shop.example.com/');
+    expect(content).not.toContain('https://example.com/');
+  });
+});
@@ -0,0 +1,191 @@
+import { ERROR_KINDS } from './errors';
+import type { LinkClassification, LinkResult, ScanResult } from './types';
+
+export type ExportFormat = 'html' | 'csv' | 'json' | 'markdown' | 'clean-list';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'html', label: 'HTML', description: 'Working links as a ready-to-paste block' },
+  { format: 'clean-list', label: 'Clean List', description: 'Title/URL CSV with redirects replaced, for re-importing into Linktree' },
+  { format: 'csv', label: 'CSV', description: 'Full audit of every link' },
+  { format: 'json', label: 'JSON', description: 'Full scan result' },
+  { format: 'markdown', label: 'Markdown', description: 'Report grouped by status' },
+];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.some(({ format }) => format === value);
+}
+
+// Build a downloadable file for a scan result in the requested format
+export function exportScan(result: ScanResult, format: ExportFormat): ExportFile {
+  switch (format) {
+    case 'html':
+      return { filename: 'cleaned-bio-links.html', mimeType: 'text/html', content: toHtml(result) };
+    case 'csv':
+      return { filename: 'bio-link-audit.csv', mimeType: 'text/csv', content: toCsv(result) };
+    case 'json':
+      return { filename: 'bio-link-audit.json', mimeType: 'application/json', content: JSON.stringify(result, null, 2) };
+    case 'markdown':
+      return { filename: 'bio-link-report.md', mimeType: 'text/markdown', content: toMarkdown(result) };
+    case 'clean-list':
+      return { filename: 'clean-bio-links.csv', mimeType: 'text/csv', content: toCleanList(result) };
+  }
+}
+
+// Clean exports hold the page's links only, not the images, icons and embeds found alongside them.
+// Suspected-broken links answer but land on a soft 404 or a homepage, so they are dropped with the broken
+// ones. Rate-limited links couldn't be verified but most likely work, so exports keep them.
+export function keepsLink(link: LinkResult): boolean {
+  if (link.kind !== 'link' || link.classification === 'suspected-broken') {
+    return false;
+  }
+  return link.isWorking || link.classification === 'rate-limited';
+}
+
+function inPageOrder(links: LinkResult[]): LinkResult[] {
+  return [...links].sort((a, b) => a.position - b.position);
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Quote a CSV cell, neutralising values a spreadsheet would run as a formula
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: (string | number | undefined)[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\[\]()*_`<>])/g, '\\$1');
+}
+
+// Keep the page's original order and labels, plus any rel values like "me" the author set
+function toHtml(result: ScanResult): string {
+  const workingLinks = inPageOrder(result.links.filter(keepsLink));
+
+  return `<!-- Cleaned Links from ClearOut.bio -->
+<div class="bio-links">
+${workingLinks
+  .map(link => {
+    const rel = Array.from(new Set([...(link.rel ?? []), 'noopener', 'noreferrer'])).join(' ');
+    const title = link.title ? ` title="${escapeHtml(link.title)}"` : '';
+    const ariaLabel = link.ariaLabel ? ` aria-label="${escapeHtml(link.ariaLabel)}"` : '';
+    return `  <a href="${escapeHtml(link.finalUrl)}" target="_blank" rel="${rel}"${title}${ariaLabel}>${escapeHtml(link.label ?? link.finalUrl)}</a>`;
+  })
+  .join('\n')}
+</div>`;
+}
+
+function toCsv(result: ScanResult): string {
+  return csvRows([
+    [
+      'Position',
+      'Label',
+      'Classification',
+      'HTTP Status',
+      'Status Text',
+      'Error Kind',
+      'Original URL',
+      'Final URL',
+      'Redirect Hops',
+      'Response Time (ms)',
+      'Time to First Byte (ms)',
+      'Method',
+      'HTTP Version',
+      'Content Type',
+      'Content Length',
+      'Certificate Expires',
+      'Soft 404 Reason',
+      'Occurrences',
+      'Found On',
+      'Safety Flags',
+      'Health',
+    ],
+    ...inPageOrder(result.links).map(link => [
+      link.position + 1,
+      link.label,
+      link.classification,
+      link.status,
+      link.statusText,
+      link.errorKind,
+      link.originalUrl,
+      link.finalUrl,
+      Math.max(link.redirectChain.length - 1, 0),
+      link.responseTime,
+      link.timing?.firstByte,
+      link.method,
+      link.httpVersion,
+      link.contentType,
+      link.contentLength,
+      link.certificateExpiresAt,
+      link.soft404Reason,
+      link.occurrences,
+      link.foundOn?.join(' '),
+      link.safety?.map(issue => issue.reason).join('; '),
+      link.health?.map(issue => issue.reason).join('; '),
+    ]),
+  ]);
+}
+
+// Working links, with redirecting links replaced by where they end up
+function toCleanList(result: ScanResult): string {
+  return csvRows([
+    ['Title', 'URL'],
+    ...inPageOrder(result.links.filter(keepsLink)).map(link => [link.label ?? link.finalUrl, link.finalUrl]),
+  ]);
+}
+
+const MARKDOWN_GROUPS: { title: string; classifications: LinkClassification[] }[] = [
+  { title: 'Working', classifications: ['working'] },
+  { title: 'Redirect', classifications: ['redirect'] },
+  { title: 'Suspected Broken', classifications: ['suspected-broken'] },
+  { title: 'Broken', classifications: ['broken', 'redirect-loop', 'too-many-redirects'] },
+  { title: 'Rate Limited', classifications: ['rate-limited'] },
+  { title: 'Blocked', classifications: ['blocked'] },
+];
+
+function toMarkdown(result: ScanResult): string {
+  const lines = [
+    '# Bio Link Report',
+    '',
+    `- Total links: ${result.totalLinks}`,
+    `- Working: ${result.workingLinks}`,
+    `- Redirects: ${result.redirects}`,
+    `- Suspected broken: ${result.suspectedBroken}`,
+    `- Broken: ${result.brokenLinks}`,
+    `- Rate limited: ${result.rateLimited}`,
+    `- Blocked: ${result.blockedLinks}`,
+  ];
+
+  for (const group of MARKDOWN_GROUPS) {
+    const links = inPageOrder(result.links.filter(link => group.classifications.includes(link.classification)));
+    if (links.length === 0) {
+      continue;
+    }
+
+    lines.push('', `## ${group.title} (${links.length})`, '');
+    for (const link of links) {
+      const label = escapeMarkdown(link.label ?? link.originalUrl);
+      const status = `${link.status} ${link.statusText}, ${link.responseTime}ms`;
+      const target = link.finalUrl !== link.originalUrl ? ` → <${link.finalUrl}>` : '';
+      const problem = link.soft404Reason ?? (link.errorKind && ERROR_KINDS[link.errorKind].label);
+      const reason = problem ? ` — ${problem}` : '';
+      lines.push(`- [${label}](<${link.originalUrl}>)${target} (${status})${reason}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
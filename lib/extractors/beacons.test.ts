@@ -0,0 +1,27 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractLinks, getExtractor } from '.';
+
+const html = readFileSync(path.join(__dirname, '__fixtures__', 'beacons.html'), 'utf8');
+
+describe('beacons extractor', () => {
+  it('handles beacons.ai and beacons.page', () => {
+    expect(getExtractor('beacons.ai').name).toBe('beacons');
+    expect(getExtractor('beacons.page').name).toBe('beacons');
+  });
+
+  it('reads the links from the page blocks in order, without the Beacons sign-up link', () => {
+    const links = extractLinks(html, 'https://beacons.ai/julesromero');
+    expect(links.map(link => [link.url, link.label])).toEqual([
+      ['https://julesromero.fm/', 'Listen to the podcast'],
+      ['https://julesromero.fm/merch', 'Merch'],
+      ['https://open.spotify.com/show/7xGmX', 'Spotify'],
+    ]);
+  });
+
+  it('keeps the avatar, thumbnails and header background out of the links', () => {
+    const urls = extractLinks(html, 'https://beacons.ai/julesromero').map(link => link.url);
+    expect(urls.some(url => url.includes('unsplash.com') || url.includes('example-images.net'))).toBe(false);
+  });
+});
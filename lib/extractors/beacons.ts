@@ -0,0 +1,19 @@
+import { collectAnchors, collectJsonLinks, getPath, isPlatformUrl, readNextData } from './shared';
+import type { LinkExtractor } from './types';
+
+// Beacons is a Next.js app: prefer the embedded page state, then the rendered anchors
+export const beaconsExtractor: LinkExtractor = {
+  name: 'beacons',
+  hostnames: ['beacons.ai', 'beacons.page'],
+  extract($, baseUrl) {
+    const pageProps = getPath(readNextData($), ['props', 'pageProps']);
+    if (pageProps) {
+      const links = collectJsonLinks(pageProps).filter(link => !isPlatformUrl(link.url, beaconsExtractor.hostnames));
+      if (links.length > 0) {
+        return links;
+      }
+    }
+
+    return collectAnchors($, baseUrl, { excludeHosts: beaconsExtractor.hostnames });
+  },
+};
@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractLinks, getExtractor } from '.';
+
+const html = readFileSync(path.join(__dirname, '__fixtures__', 'biolink.html'), 'utf8');
+
+describe('bio.link extractor', () => {
+  it('handles bio.link pages', () => {
+    expect(getExtractor('bio.link').name).toBe('bio.link');
+  });
+
+  it('reads the buttons from the page data in their set order', () => {
+    const links = extractLinks(html, 'https://bio.link/theopark');
+    expect(links.map(link => [link.url, link.label])).toEqual([
+      ['https://theopark.art/', 'Portfolio'],
+      ['https://theopark.art/shop/', 'Zine shop'],
+      ['https://www.patreon.com/theopark', 'Patreon'],
+    ]);
+  });
+
+  it('keeps the avatar, cover and button images out of the links', () => {
+    const urls = extractLinks(html, 'https://bio.link/theopark').map(link => link.url);
+    expect(urls.some(url => url.includes('cloudfront.net'))).toBe(false);
+  });
+
+  it('falls back to the rendered buttons without the page data', () => {
+    const withoutData = html.replace(/<script id="__NEXT_DATA__"[\s\S]*?<\/script>/, '');
+    const links = extractLinks(withoutData, 'https://bio.link/theopark');
+    expect(links.map(link => [link.url, link.anchorText])).toEqual([
+      ['https://theopark.art/', 'Portfolio'],
+      ['https://theopark.art/shop/', 'Zine shop'],
+      ['https://www.patreon.com/theopark', 'Patreon'],
+    ]);
+  });
+});
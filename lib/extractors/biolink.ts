@@ -0,0 +1,19 @@
+import { collectAnchors, collectJsonLinks, getPath, isPlatformUrl, readNextData } from './shared';
+import type { LinkExtractor } from './types';
+
+// bio.link renders buttons server-side; drop its own navigation and "made with" links
+export const bioLinkExtractor: LinkExtractor = {
+  name: 'bio.link',
+  hostnames: ['bio.link'],
+  extract($, baseUrl) {
+    const pageProps = getPath(readNextData($), ['props', 'pageProps']);
+    if (pageProps) {
+      const links = collectJsonLinks(pageProps).filter(link => !isPlatformUrl(link.url, bioLinkExtractor.hostnames));
+      if (links.length > 0) {
+        return links;
+      }
+    }
+
+    return collectAnchors($, baseUrl, { excludeHosts: bioLinkExtractor.hostnames });
+  },
+};
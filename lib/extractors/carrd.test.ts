@@ -0,0 +1,26 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractLinks, getExtractor } from '.';
+
+const html = readFileSync(path.join(__dirname, '__fixtures__', 'carrd.html'), 'utf8');
+
+describe('carrd extractor', () => {
+  it('handles carrd.co sites', () => {
+    expect(getExtractor('analindqvist.carrd.co').name).toBe('carrd');
+  });
+
+  it('reads the buttons and icons inside #wrapper, without the Carrd badge', () => {
+    const links = extractLinks(html, 'https://analindqvist.carrd.co/');
+    expect(links.map(link => [link.url, link.label])).toEqual([
+      ['https://analindqvist.se/studio', 'Studio'],
+      ['https://analindqvist.se/webshop/', 'Web shop'],
+      ['https://instagram.com/analindqvist.ceramics', 'Instagram'],
+    ]);
+  });
+
+  it('checks mailto: links when asked to', () => {
+    const links = extractLinks(html, 'https://analindqvist.carrd.co/', { includeContactLinks: true });
+    expect(links.map(link => link.url)).toContain('mailto:hello@analindqvist.se');
+  });
+});
@@ -0,0 +1,12 @@
+import { collectAnchors } from './shared';
+import type { LinkExtractor } from './types';
+
+// Carrd sites are static; the content lives in #wrapper and the footer badge links to carrd.co
+export const carrdExtractor: LinkExtractor = {
+  name: 'carrd',
+  hostnames: ['carrd.co', 'crd.co'],
+  extract($, baseUrl) {
+    const scope = $('#wrapper').length > 0 ? '#wrapper' : undefined;
+    return collectAnchors($, baseUrl, { scope, excludeHosts: carrdExtractor.hostnames });
+  },
+};
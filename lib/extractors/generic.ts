@@ -0,0 +1,11 @@
+import { collectAnchors } from './shared';
+import type { LinkExtractor } from './types';
+
+// Fallback extractor: every anchor on the server-rendered page
+export const genericExtractor: LinkExtractor = {
+  name: 'generic',
+  hostnames: [],
+  extract($, baseUrl) {
+    return collectAnchors($, baseUrl);
+  },
+};
@@ -0,0 +1,113 @@
+import { load } from 'cheerio';
+import { canonicalizeUrl, DEFAULT_CANONICAL_RULES, isValidUrl, matchesHostname, normalizeUrl, type CanonicalRules } from '../url';
+import { beaconsExtractor } from './beacons';
+import { bioLinkExtractor } from './biolink';
+import { carrdExtractor } from './carrd';
+import { genericExtractor } from './generic';
+import { linktreeExtractor } from './linktree';
+import { collectResources } from './resources';
+import type { CheerioDocument, ExtractedLink, ExtractOptions, LinkCandidate, LinkExtractor } from './types';
+
+export type { ExtractedLink, ExtractOptions, LinkCandidate, LinkExtractor } from './types';
+
+const extractors: LinkExtractor[] = [];
+
+// Register a platform extractor; later registrations win for the same hostname
+export function registerExtractor(extractor: LinkExtractor): void {
+  extractors.unshift(extractor);
+}
+
+export function getExtractor(hostname: string): LinkExtractor {
+  return (
+    extractors.find(extractor => extractor.hostnames.some(domain => matchesHostname(hostname, domain))) ??
+    genericExtractor
+  );
+}
+
+registerExtractor(linktreeExtractor);
+registerExtractor(bioLinkExtractor);
+registerExtractor(beaconsExtractor);
+registerExtractor(carrdExtractor);
+
+// The URL relative links resolve against: the page's <base href> when it has one, else the page itself
+function documentBaseUrl($: CheerioDocument, pageUrl: string): string {
+  const base = $('base[href]').first().attr('href');
+  if (!base) {
+    return pageUrl;
+  }
+  const resolved = normalizeUrl(base, pageUrl);
+  return isValidUrl(resolved) ? resolved : pageUrl;
+}
+
+// Function to extract links from HTML using the extractor for the page's host, falling back to the generic one
+export function extractLinks(html: string, pageUrl: string, options: ExtractOptions = {}): ExtractedLink[] {
+  const $ = load(html);
+  const baseUrl = documentBaseUrl($, pageUrl);
+  const extractor = getExtractor(new URL(pageUrl).hostname);
+  const candidates = extractor.extract($, baseUrl) ?? genericExtractor.extract($, baseUrl) ?? [];
+  if (options.includeResources) {
+    candidates.push(...collectResources($));
+  }
+  return dedupeLinks(candidates, baseUrl, options);
+}
+
+// Resolve candidates and merge the ones that canonicalize to the same URL into one link, in order of
+// first appearance. The canonical URL is only the key: each link is checked (and exported) as the page
+// first wrote it, since trimming a trailing slash or tracking parameters can change where it leads.
+export function dedupeLinks(
+  candidates: LinkCandidate[],
+  baseUrl: string | undefined,
+  options: ExtractOptions = {}
+): ExtractedLink[] {
+  const rules: CanonicalRules = options.rules ?? DEFAULT_CANONICAL_RULES;
+  const links: ExtractedLink[] = [];
+  const seen = new Map<string, { link: ExtractedLink; variants: Set<string> }>();
+
+  candidates.forEach((candidate, position) => {
+    const normalizedUrl = normalizeUrl(candidate.url, baseUrl);
+    const isContactLink = normalizedUrl.startsWith('mailto:') || normalizedUrl.startsWith('tel:');
+    if (!isValidUrl(normalizedUrl) || (isContactLink && !options.includeContactLinks)) {
+      return;
+    }
+    const canonicalUrl = canonicalizeUrl(normalizedUrl, rules);
+
+    // Avoid duplicate links, but keep count of them and fill in any details the first anchor lacked
+    const existing = seen.get(canonicalUrl);
+    if (existing) {
+      const { link, variants } = existing;
+      link.occurrences += 1;
+      link.anchorText ??= candidate.anchorText;
+      link.title ??= candidate.title;
+      link.ariaLabel ??= candidate.ariaLabel;
+      link.rel ??= candidate.rel;
+      link.label ??= resolveLabel(candidate);
+      variants.add(normalizedUrl);
+      return;
+    }
+
+    const link: ExtractedLink = {
+      ...candidate,
+      url: normalizedUrl,
+      kind: candidate.kind ?? 'link',
+      label: resolveLabel(candidate),
+      position,
+      occurrences: 1,
+    };
+    seen.set(canonicalUrl, { link, variants: new Set([normalizedUrl]) });
+    links.push(link);
+  });
+
+  // Variants are only worth reporting when the page wrote the link more than one way
+  seen.forEach(({ link, variants }) => {
+    if (variants.size > 1) {
+      link.variants = Array.from(variants);
+    }
+  });
+
+  return links;
+}
+
+// Prefer the platform's own title, then what a visitor sees, then accessibility text
+function resolveLabel(candidate: LinkCandidate): string | undefined {
+  return candidate.label ?? candidate.anchorText ?? candidate.ariaLabel ?? candidate.title;
+}
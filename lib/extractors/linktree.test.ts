@@ -0,0 +1,34 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractLinks, getExtractor } from '.';
+
+const html = readFileSync(path.join(__dirname, '__fixtures__', 'linktree.html'), 'utf8');
+
+describe('linktree extractor', () => {
+  it('handles linktr.ee pages', () => {
+    expect(getExtractor('linktr.ee').name).toBe('linktree');
+  });
+
+  it('reads the links from __NEXT_DATA__ in position order, then the social icons', () => {
+    const links = extractLinks(html, 'https://linktr.ee/maya.bakes');
+    expect(links.map(link => [link.url, link.label])).toEqual([
+      ['https://shop.mayabakes.com/', 'Shop my starter kit'],
+      ['https://mayabakes.com/classes?utm_source=linktree', 'Sourdough class - spring dates'],
+      ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', undefined],
+      ['https://instagram.com/maya.bakes', 'INSTAGRAM'],
+      ['https://www.tiktok.com/@maya.bakes', 'TIKTOK'],
+    ]);
+  });
+
+  it('leaves out the footer, the profile picture and link thumbnails', () => {
+    const urls = extractLinks(html, 'https://linktr.ee/maya.bakes').map(link => link.url);
+    expect(urls.some(url => url.includes('linktr.ee'))).toBe(false);
+  });
+
+  it('falls back to the account data without picking up its images', () => {
+    const withoutLinks = html.replace(/"links":\[.*?\],"socialLinks"/, '"socialLinks"');
+    const urls = extractLinks(withoutLinks, 'https://linktr.ee/maya.bakes').map(link => link.url);
+    expect(urls).toEqual([]);
+  });
+});
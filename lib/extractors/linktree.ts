@@ -0,0 +1,41 @@
+import { collectJsonLinks, getPath, readNextData } from './shared';
+import type { LinkCandidate, LinkExtractor } from './types';
+
+interface LinktreeLink {
+  title?: string;
+  url?: string;
+  position?: number;
+  type?: string;
+}
+
+// Linktree renders the link list client-side from __NEXT_DATA__, so the server HTML mostly holds footer links
+export const linktreeExtractor: LinkExtractor = {
+  name: 'linktree',
+  hostnames: ['linktr.ee', 'linktree.com'],
+  extract($) {
+    const nextData = readNextData($);
+    const pageProps = getPath(nextData, ['props', 'pageProps']);
+    if (!pageProps) {
+      return null;
+    }
+
+    const links = getPath(pageProps, ['links']);
+    if (!Array.isArray(links)) {
+      return collectJsonLinks(getPath(pageProps, ['account']) ?? pageProps);
+    }
+
+    const bioLinks: LinkCandidate[] = (links as LinktreeLink[])
+      .filter(link => typeof link.url === 'string' && link.url.length > 0)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map(link => ({ url: link.url as string, label: link.title || undefined }));
+
+    const socialLinks = getPath(pageProps, ['socialLinks']);
+    const socials: LinkCandidate[] = Array.isArray(socialLinks)
+      ? (socialLinks as LinktreeLink[])
+          .filter(link => typeof link.url === 'string' && link.url.length > 0)
+          .map(link => ({ url: link.url as string, label: link.type || undefined }))
+      : [];
+
+    return [...bioLinks, ...socials];
+  },
+};
@@ -0,0 +1,38 @@
+import type { ResourceKind } from '../resources';
+import { cleanText } from './shared';
+import type { CheerioDocument, LinkCandidate } from './types';
+
+// Where each kind of non-anchor resource lives in a page, and the attribute holding its URL
+const RESOURCE_SELECTORS: { kind: ResourceKind; selector: string; attribute: string }[] = [
+  { kind: 'og-image', selector: 'meta[property="og:image"], meta[property="og:image:url"], meta[property="og:image:secure_url"]', attribute: 'content' },
+  { kind: 'twitter-image', selector: 'meta[name="twitter:image"], meta[name="twitter:image:src"], meta[property="twitter:image"]', attribute: 'content' },
+  { kind: 'icon', selector: 'link[rel~="icon"], link[rel="apple-touch-icon"]', attribute: 'href' },
+  { kind: 'rel-me', selector: 'link[rel~="me"]', attribute: 'href' },
+  { kind: 'image', selector: 'img[src]', attribute: 'src' },
+  { kind: 'embed', selector: 'iframe[src]', attribute: 'src' },
+];
+
+// Collect images, icons, embeds and social preview tags, which break a bio page as visibly as its links.
+// Inline data: URLs have nothing to check and are skipped.
+export function collectResources($: CheerioDocument): LinkCandidate[] {
+  const resources: LinkCandidate[] = [];
+
+  for (const { kind, selector, attribute } of RESOURCE_SELECTORS) {
+    $(selector).each((_, element) => {
+      const $element = $(element);
+      const url = $element.attr(attribute)?.trim();
+      if (!url || /^data:/i.test(url)) {
+        return;
+      }
+
+      resources.push({
+        url,
+        kind,
+        anchorText: kind === 'image' ? cleanText($element.attr('alt')) : undefined,
+        title: cleanText($element.attr('title')),
+      });
+    });
+  }
+
+  return resources;
+}
@@ -0,0 +1,130 @@
+import { matchesHostname, normalizeUrl } from '../url';
+import type { CheerioDocument, LinkCandidate } from './types';
+
+const LABEL_KEYS = ['title', 'label', 'text', 'name'];
+const ORDER_KEYS = ['position', 'order', 'index', 'sort'];
+// Fields holding a profile picture, thumbnail or background, whose { url } objects are images rather than links
+const MEDIA_KEY = /avatar|image|picture|photo|thumbnail|icon|logo|cover|banner|background/i;
+
+// Parse the JSON state that Next.js pages embed for client-side hydration
+export function readNextData($: CheerioDocument): unknown {
+  const json = $('script#__NEXT_DATA__').first().html();
+  if (!json) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to safely walk into nested JSON
+export function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// Collapse whitespace, returning undefined for empty text
+export function cleanText(text: string | undefined): string | undefined {
+  const cleaned = text?.replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+}
+
+function readString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function readNumber(record: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Walk embedded JSON and collect every object that looks like a link ({ url, title }), ordering siblings
+// by their position field when the platform provides one and skipping media fields
+export function collectJsonLinks(value: unknown): LinkCandidate[] {
+  if (Array.isArray(value)) {
+    const items = value.map((item, index) => ({
+      order: item && typeof item === 'object' ? readNumber(item as Record<string, unknown>, ORDER_KEYS) : undefined,
+      index,
+      item,
+    }));
+    items.sort((a, b) => (a.order ?? a.index) - (b.order ?? b.index) || a.index - b.index);
+    return items.flatMap(({ item }) => collectJsonLinks(item));
+  }
+
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const url = readString(record, ['url', 'href', 'link']);
+  if (url && /^(https?:)?\/\//.test(url)) {
+    return [{ url, label: readString(record, LABEL_KEYS) }];
+  }
+
+  return Object.keys(record)
+    .filter(key => !MEDIA_KEY.test(key))
+    .flatMap(key => collectJsonLinks(record[key]));
+}
+
+// Helper function to check whether a link points back to the bio platform itself
+export function isPlatformUrl(url: string, hostnames: string[]): boolean {
+  try {
+    const { hostname } = new URL(url.startsWith('//') ? 'https:' + url : url);
+    return hostnames.some(domain => matchesHostname(hostname, domain));
+  } catch {
+    return false;
+  }
+}
+
+// Collect anchors in document order, skipping links back to the platform itself (footers, "made with" badges)
+export function collectAnchors(
+  $: CheerioDocument,
+  baseUrl: string,
+  options: { scope?: string; excludeHosts?: string[] } = {}
+): LinkCandidate[] {
+  const links: LinkCandidate[] = [];
+  const root = options.scope ? $(options.scope) : $.root();
+
+  root.find('a[href]').each((_, element) => {
+    const href = $(element).attr('href');
+    if (!href) {
+      return;
+    }
+
+    if (options.excludeHosts && isPlatformUrl(normalizeUrl(href, baseUrl), options.excludeHosts)) {
+      return;
+    }
+
+    const $element = $(element);
+    const rel = $element.attr('rel')?.split(/\s+/).filter(Boolean);
+    links.push({
+      url: href,
+      anchorText: cleanText($element.text()),
+      title: cleanText($element.attr('title')),
+      ariaLabel: cleanText($element.attr('aria-label')),
+      rel: rel && rel.length > 0 ? rel : undefined,
+    });
+  });
+
+  return links;
+}
@@ -0,0 +1,47 @@
+import type { load } from 'cheerio';
+import type { ResourceKind } from '../resources';
+import type { CanonicalRules } from '../url';
+
+export type CheerioDocument = ReturnType<typeof load>;
+
+// A link as found by an extractor, before normalization and deduplication
+export interface LinkCandidate {
+  url: string;
+  // Title provided by the bio platform itself
+  label?: string;
+  anchorText?: string;
+  title?: string;
+  ariaLabel?: string;
+  rel?: string[];
+  // What the URL is used for on the page; anchors leave this unset
+  kind?: ResourceKind;
+}
+
+export interface ExtractedLink extends LinkCandidate {
+  kind: ResourceKind;
+  // Order of the link's first appearance on the page (0-based)
+  position: number;
+  // How many times the link appeared on the page
+  occurrences: number;
+  // Pages of a crawled site the link appears on
+  foundOn?: string[];
+  // The different ways the link was written, when there is more than one; url is the first of them
+  variants?: string[];
+}
+
+export interface ExtractOptions {
+  // How URLs are canonicalized for deduplication (default: DEFAULT_CANONICAL_RULES)
+  rules?: CanonicalRules;
+  // Also collect images, icons, embeds and social preview tags, not just anchors
+  includeResources?: boolean;
+  // Keep mailto: and tel: links so their syntax can be checked; they are dropped otherwise
+  includeContactLinks?: boolean;
+}
+
+export interface LinkExtractor {
+  name: string;
+  // Hostnames this extractor handles; subdomains match too
+  hostnames: string[];
+  // Returns the page's links in display order, or null when the page doesn't look like this platform
+  extract($: CheerioDocument, baseUrl: string): LinkCandidate[] | null;
+}
@@ -0,0 +1,110 @@
+import type { LinkCheck } from './types';
+
+export type HealthIssueKind = 'slow' | 'degraded' | 'certificate-expiring';
+
+// Something that makes a link worse for visitors even though it works
+export interface HealthIssue {
+  kind: HealthIssueKind;
+  reason: string;
+}
+
+export interface HealthIssueInfo {
+  label: string;
+  explanation: string;
+}
+
+export const HEALTH_ISSUES: Record<HealthIssueKind, HealthIssueInfo> = {
+  degraded: {
+    label: 'Degraded',
+    explanation: 'The link took so long to load that many visitors will give up before it opens.',
+  },
+  slow: {
+    label: 'Slow',
+    explanation: 'The link loads, but slowly. Visitors on mobile connections will notice.',
+  },
+  'certificate-expiring': {
+    label: 'Certificate expiring',
+    explanation: "The site's TLS certificate expires soon. Once it does, browsers will refuse to open the link.",
+  },
+};
+
+// Thresholds links are graded against
+export interface GradingRules {
+  // Total response times at or above these mark a link slow or degraded
+  slowMs: number;
+  degradedMs: number;
+  // Warn when a certificate expires within this many days
+  certificateWarningDays: number;
+}
+
+export const DEFAULT_GRADING_RULES: GradingRules = {
+  slowMs: 2000,
+  degradedMs: 5000,
+  certificateWarningDays: 14,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Grade a link that got a response. Failed links are already broken and get no grade.
+export function gradeLink(link: LinkCheck, rules: GradingRules = DEFAULT_GRADING_RULES): LinkCheck {
+  if (!link.isWorking) {
+    return link;
+  }
+
+  const issues: HealthIssue[] = [];
+  const seconds = (link.responseTime / 1000).toFixed(1);
+  if (link.responseTime >= rules.degradedMs) {
+    issues.push({ kind: 'degraded', reason: `Took ${seconds}s to respond` });
+  } else if (link.responseTime >= rules.slowMs) {
+    issues.push({ kind: 'slow', reason: `Took ${seconds}s to respond` });
+  }
+
+  if (link.certificateExpiresAt) {
+    const daysLeft = Math.floor((Date.parse(link.certificateExpiresAt) - Date.now()) / DAY_MS);
+    if (daysLeft < rules.certificateWarningDays) {
+      issues.push({
+        kind: 'certificate-expiring',
+        reason: daysLeft < 1 ? 'Certificate expires today' : `Certificate expires in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`,
+      });
+    }
+  }
+
+  return issues.length > 0 ? { ...link, health: issues } : link;
+}
+
+// What each outcome is worth towards the page score, out of 100
+const CLASSIFICATION_POINTS: Partial<Record<LinkCheck['classification'], number>> = {
+  working: 100,
+  redirect: 90,
+  'suspected-broken': 25,
+};
+
+const ISSUE_PENALTIES: Record<HealthIssueKind, number> = {
+  slow: 15,
+  degraded: 40,
+  'certificate-expiring': 15,
+};
+
+// Overall page health from 0 to 100: the average of every link's points. Rate-limited and blocked links
+// weren't really checked and don't count; a link on a malware blocklist counts as broken.
+export function healthScore(links: LinkCheck[]): number {
+  const scores = links
+    .filter(link => link.classification !== 'rate-limited' && link.classification !== 'blocked')
+    .map(link => {
+      const safety = link.safety ?? [];
+      if (safety.some(issue => issue.flag === 'malware')) {
+        return 0;
+      }
+
+      let points = CLASSIFICATION_POINTS[link.classification] ?? 0;
+      for (const issue of link.health ?? []) {
+        points -= ISSUE_PENALTIES[issue.kind];
+      }
+      return Math.max(points - safety.length * 10, 0);
+    });
+
+  if (scores.length === 0) {
+    return 100;
+  }
+  return Math.round(scores.reduce((total, score) => total + score, 0) / scores.length);
+}
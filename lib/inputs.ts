@@ -0,0 +1,134 @@
+import { load } from 'cheerio';
+import { crawlSite, type CrawlOptions } from './crawler';
+import { dedupeLinks, extractLinks, type ExtractedLink, type ExtractOptions } from './extractors';
+import { DEFAULT_SCAN_OPTIONS, filterLinks, type ScanOptions } from './scan-options';
+import { checkLinks, fetchPage, type PageScan, type ScanPageHooks } from './scanner';
+import { summarize } from './summary';
+import { isValidUrl, parseUrlList } from './url';
+
+// Everything a scan can start from: a live page or the site behind it, HTML that isn't published yet,
+// a list of links, or a sitemap
+export type ScanInput = (
+  | { type: 'url'; url: string }
+  | { type: 'crawl'; url: string; options: CrawlOptions }
+  | { type: 'html'; html: string; baseUrl?: string }
+  | { type: 'links'; links: string }
+  | { type: 'sitemap'; url: string }
+) & {
+  // Also check images, icons, embeds and social preview tags; only pages and HTML have any
+  includeResources?: boolean;
+  // Timeouts, request headers, link filters and grading thresholds, instead of the defaults
+  scanOptions?: ScanOptions;
+};
+
+export type LoadedLinks = { links: ExtractedLink[] } | { error: string; status: number };
+
+// Most links a pasted list or sitemap may contain
+export const MAX_INPUT_LINKS = 1000;
+
+// Most child sitemaps followed from a sitemap index
+const MAX_CHILD_SITEMAPS = 50;
+
+// Pasted HTML without a base URL is parsed against this, so relative links can't resolve and are skipped
+const NO_BASE_URL = 'about:blank';
+
+function toExtractedLinks(urls: string[]): ExtractedLink[] {
+  return dedupeLinks(urls.map(url => ({ url })), undefined);
+}
+
+function tooManyLinks(count: number): LoadedLinks {
+  return { error: `Too many links - at most ${MAX_INPUT_LINKS} can be checked at once, found ${count}`, status: 400 };
+}
+
+// Read <loc> entries from a sitemap, following a sitemap index one level down
+async function loadSitemap(url: string, options: ScanOptions, signal?: AbortSignal): Promise<LoadedLinks> {
+  const page = await fetchPage(url, signal, options);
+  if ('error' in page) {
+    return page;
+  }
+
+  const $ = load(page.html, { xmlMode: true });
+  const locations = (selector: string) =>
+    $(selector)
+      .map((_, element) => $(element).text().trim())
+      .get()
+      .filter(isValidUrl);
+
+  if ($('sitemapindex').length > 0) {
+    const children = locations('sitemapindex > sitemap > loc');
+    if (children.length > MAX_CHILD_SITEMAPS) {
+      return { error: `Sitemap index lists ${children.length} sitemaps - at most ${MAX_CHILD_SITEMAPS} are followed`, status: 400 };
+    }
+
+    const urls = new Set<string>();
+    for (const child of children) {
+      const childPage = await fetchPage(child, signal, options);
+      if ('error' in childPage) {
+        return { error: `Could not read ${child}: ${childPage.error}`, status: childPage.status };
+      }
+      const child$ = load(childPage.html, { xmlMode: true });
+      child$('urlset > url > loc').each((_, element) => {
+        const loc = child$(element).text().trim();
+        if (isValidUrl(loc)) urls.add(loc);
+      });
+      if (urls.size > MAX_INPUT_LINKS) {
+        return tooManyLinks(urls.size);
+      }
+    }
+    return { links: toExtractedLinks(Array.from(urls)) };
+  }
+
+  if ($('urlset').length === 0) {
+    return { error: 'Not a sitemap - expected a <urlset> or <sitemapindex> document', status: 400 };
+  }
+
+  const urls = Array.from(new Set(locations('urlset > url > loc')));
+  return urls.length > MAX_INPUT_LINKS ? tooManyLinks(urls.length) : { links: toExtractedLinks(urls) };
+}
+
+async function loadInputLinks(input: ScanInput, options: ScanOptions, signal?: AbortSignal): Promise<LoadedLinks> {
+  const extract: ExtractOptions = { includeResources: input.includeResources, includeContactLinks: options.validateContactLinks };
+
+  switch (input.type) {
+    case 'url': {
+      const page = await fetchPage(input.url, signal, options);
+      return 'error' in page ? page : { links: extractLinks(page.html, page.url, extract) };
+    }
+    case 'crawl': {
+      const crawl = await crawlSite(input.url, input.options, signal, extract, options);
+      return 'links' in crawl && crawl.links.length > MAX_INPUT_LINKS ? tooManyLinks(crawl.links.length) : crawl;
+    }
+    case 'html':
+      return { links: extractLinks(input.html, input.baseUrl ?? NO_BASE_URL, extract) };
+    case 'links': {
+      const urls = parseUrlList(input.links);
+      return urls.length > MAX_INPUT_LINKS ? tooManyLinks(urls.length) : { links: toExtractedLinks(urls) };
+    }
+    case 'sitemap':
+      return loadSitemap(input.url, options, signal);
+  }
+}
+
+// Turn any scan input into the links to check, leaving out those the include and exclude patterns rule out
+export async function loadLinks(input: ScanInput, signal?: AbortSignal): Promise<LoadedLinks> {
+  const options = input.scanOptions ?? DEFAULT_SCAN_OPTIONS;
+  const loaded = await loadInputLinks(input, options, signal);
+  return 'links' in loaded ? { links: filterLinks(loaded.links, options) } : loaded;
+}
+
+// Load the links for an input and check every one of them
+export async function scanInput(input: ScanInput, hooks: ScanPageHooks = {}): Promise<PageScan> {
+  const loaded = await loadLinks(input, hooks.signal);
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  hooks.onStart?.(loaded.links.length);
+  const linkResults = await checkLinks(loaded.links, hooks.onResult ?? (() => {}), hooks.signal, input.scanOptions);
+  return { result: summarize(linkResults) };
+}
+
+// The URL a scan of this input is filed under in history, if it has one
+export function inputUrl(input: ScanInput): string | undefined {
+  return input.type === 'html' || input.type === 'links' ? undefined : input.url;
+}
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { inputUrl, scanInput, type ScanInput } from './inputs';
+import { saveToHistory } from './storage';
+import { summarize } from './summary';
+import type { LinkResult, ScanResult } from './types';
+
+export type ScanJobStatus = 'fetching' | 'checking' | 'completed' | 'failed' | 'cancelled';
+
+// What a client polling a job sees: progress so far and the links checked up to now
+export interface ScanJobSnapshot {
+  id: string;
+  // The page or sitemap being scanned; pasted HTML and link lists have none
+  url?: string;
+  status: ScanJobStatus;
+  createdAt: string;
+  checked: number;
+  total: number;
+  result: ScanResult;
+  error?: string;
+  savedScanId?: string;
+}
+
+interface ScanJob {
+  id: string;
+  input: ScanInput;
+  status: ScanJobStatus;
+  createdAt: string;
+  total: number;
+  // Indexed by position on the page; unchecked links are holes
+  links: (LinkResult | undefined)[];
+  checked: number;
+  result?: ScanResult;
+  error?: string;
+  savedScanId?: string;
+  controller: AbortController;
+  lastPolledAt: number;
+  finishedAt?: number;
+}
+
+// A running job nobody has polled for this long was abandoned (e.g. the tab was closed) and is cancelled
+const ABANDONED_AFTER_MS = 60 * 1000;
+
+// Finished jobs are kept this long so a slow client can still read the final result
+const KEEP_FINISHED_MS = 10 * 60 * 1000;
+
+// How often abandoned and expired jobs are looked for
+const SWEEP_INTERVAL_MS = 15 * 1000;
+
+// Jobs live in this server process's memory; a restart drops them
+const jobs = new Map<string, ScanJob>();
+let sweeper: ReturnType<typeof setInterval> | null = null;
+
+function isFinished(job: ScanJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function finish(job: ScanJob, status: ScanJobStatus, error?: string): void {
+  job.status = status;
+  job.error = error;
+  job.finishedAt = Date.now();
+}
+
+// Cancel abandoned jobs and forget old finished ones
+function sweep(): void {
+  const now = Date.now();
+  jobs.forEach((job, id) => {
+    if (!isFinished(job) && now - job.lastPolledAt > ABANDONED_AFTER_MS) {
+      job.controller.abort();
+    } else if (job.finishedAt !== undefined && now - job.finishedAt > KEEP_FINISHED_MS) {
+      jobs.delete(id);
+    }
+  });
+}
+
+async function run(job: ScanJob, save: boolean): Promise<void> {
+  try {
+    const scan = await scanInput(job.input, {
+      signal: job.controller.signal,
+      onStart: total => {
+        job.total = total;
+        job.status = 'checking';
+      },
+      onResult: (index, link) => {
+        job.links[index] = link;
+        job.checked++;
+      },
+    });
+
+    if ('error' in scan) {
+      finish(job, 'failed', scan.error);
+      return;
+    }
+
+    job.result = scan.result;
+    const url = inputUrl(job.input);
+    if (save && url) {
+      job.savedScanId = await saveToHistory(url, scan.result);
+    }
+    finish(job, 'completed');
+  } catch (error) {
+    if (job.controller.signal.aborted) {
+      finish(job, 'cancelled');
+    } else {
+      console.error('Error running scan job:', error);
+      finish(job, 'failed', 'Internal server error');
+    }
+  }
+}
+
+// Start a scan in the background and return the new job's id
+export function startScanJob(input: ScanInput, options: { save?: boolean } = {}): string {
+  if (!sweeper) {
+    sweeper = setInterval(sweep, SWEEP_INTERVAL_MS);
+    sweeper.unref?.();
+  }
+
+  const job: ScanJob = {
+    id: randomUUID(),
+    input,
+    status: 'fetching',
+    createdAt: new Date().toISOString(),
+    total: 0,
+    links: [],
+    checked: 0,
+    controller: new AbortController(),
+    lastPolledAt: Date.now(),
+  };
+  jobs.set(job.id, job);
+  run(job, options.save === true);
+
+  return job.id;
+}
+
+// Report a job's progress; polling also keeps a running job from being treated as abandoned
+export function getScanJob(id: string): ScanJobSnapshot | null {
+  const job = jobs.get(id);
+  if (!job) {
+    return null;
+  }
+  job.lastPolledAt = Date.now();
+
+  return {
+    id: job.id,
+    url: inputUrl(job.input),
+    status: job.status,
+    createdAt: job.createdAt,
+    checked: job.checked,
+    total: job.total,
+    result: job.result ?? summarize(job.links.filter((link): link is LinkResult => link !== undefined)),
+    error: job.error,
+    savedScanId: job.savedScanId,
+  };
+}
+
+// Abort every in-flight check of a job. Returns false when there is no such job.
+export function cancelScanJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job) {
+    return false;
+  }
+  job.controller.abort();
+  return true;
+}
@@ -0,0 +1,179 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { ScanOptions } from '../scan-options';
+import { scanPage } from '../scanner';
+import { getMonitorStore } from '../storage';
+import { isBroken } from '../summary';
+import type { LinkResult } from '../types';
+import { sendAlert } from './notify';
+import type { LinkWatch, Monitor, PublicMonitor } from './types';
+
+export type { LinkWatch, Monitor, MonitorAlert, PublicMonitor } from './types';
+
+export const MIN_INTERVAL_MINUTES = 15;
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+export const DEFAULT_FAILURE_THRESHOLD = 2;
+
+// Monitors one management token may hold, and across the whole server
+export const MAX_MONITORS_PER_OWNER = 20;
+export const MAX_MONITORS = 1000;
+
+// A link that just failed is re-checked this soon instead of waiting a full interval
+const RECHECK_DELAY_MINUTES = 5;
+
+// How often the in-process loop looks for monitors that are due
+const LOOP_INTERVAL_MS = 60 * 1000;
+
+// A new management token; whoever holds it can list and delete the monitors created with it
+export function createMonitorToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Monitors store a hash of their token, so a leaked data directory doesn't hand out control of them
+export function monitorOwner(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The owner a request speaks for, from "Authorization: Bearer <token>"
+export function requestOwner(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  const token = authorization?.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : '';
+  return token ? monitorOwner(token) : null;
+}
+
+export function toPublicMonitor(monitor: Monitor): PublicMonitor {
+  const { owner, webhookUrl, options, ...rest } = monitor;
+  return webhookUrl ? { ...rest, webhookHost: new URL(webhookUrl).host } : rest;
+}
+
+export async function createMonitor(
+  url: string,
+  intervalMinutes: number,
+  webhookUrl: string | undefined,
+  owner: string,
+  options?: ScanOptions
+): Promise<Monitor> {
+  const now = new Date().toISOString();
+  const monitor: Monitor = {
+    id: randomUUID(),
+    owner,
+    url,
+    intervalMinutes,
+    webhookUrl,
+    failureThreshold: DEFAULT_FAILURE_THRESHOLD,
+    options,
+    createdAt: now,
+    nextRunAt: now,
+    links: {},
+  };
+
+  await getMonitorStore().save(monitor);
+  return monitor;
+}
+
+// Update what the monitor knows about each link and return the ones that just crossed the
+// failure threshold. A single flaky check only schedules a quick re-check.
+function trackLinks(monitor: Monitor, links: LinkResult[]): { newlyBroken: LinkResult[]; pending: boolean } {
+  const watches: Record<string, LinkWatch> = {};
+  const newlyBroken: LinkResult[] = [];
+  let pending = false;
+
+  for (const link of links) {
+    const watch = monitor.links[link.originalUrl] ?? { seenWorking: false, failures: 0, alerted: false };
+
+    if (!isBroken(link)) {
+      // Rate-limited and blocked checks say nothing about the link, so leave its state alone
+      watches[link.originalUrl] = link.isWorking ? { seenWorking: true, failures: 0, alerted: false } : watch;
+      continue;
+    }
+
+    const failures = watch.failures + 1;
+    watches[link.originalUrl] = { ...watch, failures };
+
+    if (watch.seenWorking && !watch.alerted) {
+      if (failures >= monitor.failureThreshold) {
+        newlyBroken.push(link);
+      } else {
+        pending = true;
+      }
+    }
+  }
+
+  monitor.links = watches;
+  return { newlyBroken, pending };
+}
+
+// Scan a monitored page once, alert on links that went from working to broken, and schedule the next run
+export async function runMonitor(monitor: Monitor): Promise<Monitor> {
+  const startedAt = new Date();
+  const scan = await scanPage(monitor.url, {}, monitor.options);
+  let nextDelay = monitor.intervalMinutes;
+
+  monitor.lastRunAt = startedAt.toISOString();
+  monitor.lastError = undefined;
+
+  if ('error' in scan) {
+    monitor.lastError = scan.error;
+  } else {
+    const { newlyBroken, pending: hasPending } = trackLinks(monitor, scan.result.links);
+    let pending = hasPending;
+
+    if (newlyBroken.length > 0) {
+      try {
+        await sendAlert(
+          { type: 'links-broken', monitorId: monitor.id, url: monitor.url, detectedAt: monitor.lastRunAt, links: newlyBroken },
+          monitor.webhookUrl
+        );
+        for (const link of newlyBroken) {
+          monitor.links[link.originalUrl].alerted = true;
+        }
+      } catch (error) {
+        monitor.lastError = error instanceof Error ? error.message : 'Failed to send alert';
+        pending = true;
+      }
+    }
+
+    if (pending) {
+      nextDelay = Math.min(nextDelay, RECHECK_DELAY_MINUTES);
+    }
+  }
+
+  monitor.nextRunAt = new Date(startedAt.getTime() + nextDelay * 60 * 1000).toISOString();
+  return monitor;
+}
+
+let isRunning = false;
+
+// Run every monitor whose next run is due. Overlapping calls return right away.
+export async function runDueMonitors(): Promise<number> {
+  if (isRunning) {
+    return 0;
+  }
+
+  isRunning = true;
+  try {
+    const store = getMonitorStore();
+    const now = Date.now();
+    const due = (await store.list()).filter(monitor => Date.parse(monitor.nextRunAt) <= now);
+
+    for (const monitor of due) {
+      // The monitor may have been deleted while its page was being scanned; update leaves it deleted
+      await store.update(await runMonitor(monitor));
+    }
+
+    return due.length;
+  } finally {
+    isRunning = false;
+  }
+}
+
+let loop: ReturnType<typeof setInterval> | null = null;
+
+// Check for due monitors in the background of a long-running server
+export function startMonitorLoop(): void {
+  if (loop) return;
+
+  loop = setInterval(() => {
+    runDueMonitors().catch(error => console.error('Error running monitors:', error));
+  }, LOOP_INTERVAL_MS);
+  loop.unref?.();
+}
@@ -0,0 +1,38 @@
+import path from 'path';
+import { safeFetch } from '../safe-fetch';
+import { getDataDirectory } from '../storage';
+import { writeJson } from '../storage/json-file';
+import type { MonitorAlert } from './types';
+
+// Deliver an alert to the monitor's webhook, or to the local outbox when it has none.
+// Throws when delivery fails so the alert is retried on the next run.
+export async function sendAlert(alert: MonitorAlert, webhookUrl?: string): Promise<void> {
+  if (!webhookUrl) {
+    const filename = `${alert.detectedAt.replace(/[:.]/g, '-')}-${alert.monitorId}.json`;
+    await writeJson(path.join(getDataDirectory(), 'outbox', filename), alert);
+    return;
+  }
+
+  const result = await safeFetch(
+    webhookUrl,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ClearOut.bio Link Checker 1.0',
+      },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(10000),
+    },
+    0
+  );
+
+  if ('blocked' in result) {
+    throw new Error(`Webhook URL is not allowed: ${result.blocked}`);
+  }
+
+  await result.response.body?.cancel();
+  if (!result.response.ok) {
+    throw new Error(`Webhook responded with ${result.response.status}`);
+  }
+}
@@ -0,0 +1,43 @@
+import type { ScanOptions } from '../scan-options';
+import type { LinkResult } from '../types';
+
+// What a monitor remembers about each link between runs
+export interface LinkWatch {
+  // The link has worked at least once, so a failure is a change worth alerting on
+  seenWorking: boolean;
+  // Broken checks in a row
+  failures: number;
+  // An alert went out for the current outage
+  alerted: boolean;
+}
+
+export interface Monitor {
+  id: string;
+  // SHA-256 of the management token handed out when the monitor was created
+  owner?: string;
+  url: string;
+  intervalMinutes: number;
+  // Alerts are POSTed here as JSON; without one they land in the local outbox
+  webhookUrl?: string;
+  // Consecutive broken checks needed before a link is reported
+  failureThreshold: number;
+  // How the page is fetched and its links checked; the defaults when left out
+  options?: ScanOptions;
+  createdAt: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastError?: string;
+  links: Record<string, LinkWatch>;
+}
+
+// What the API shows of a monitor: the webhook URL usually embeds a secret, so only its host is returned.
+// Scan options are left out too, since their headers can carry a cookie.
+export type PublicMonitor = Omit<Monitor, 'owner' | 'webhookUrl' | 'options'> & { webhookHost?: string };
+
+export interface MonitorAlert {
+  type: 'links-broken';
+  monitorId: string;
+  url: string;
+  detectedAt: string;
+  links: LinkResult[];
+}
@@ -0,0 +1,30 @@
+import type { LinkCounts } from './types';
+
+// Offered when sharing a report; the server accepts any whole number of days up to the maximum
+export const REPORT_EXPIRY_CHOICES: { days?: number; label: string }[] = [
+  { label: 'Never expires' },
+  { days: 1, label: 'Expires in 1 day' },
+  { days: 7, label: 'Expires in 7 days' },
+  { days: 30, label: 'Expires in 30 days' },
+];
+
+export const MAX_REPORT_EXPIRY_DAYS = 365;
+
+// More than any scan produces: crawls stop at 100 pages and inputs at 1000 links
+export const MAX_REPORT_LINKS = 5000;
+
+// Largest report stored, as serialized JSON
+export const MAX_REPORT_BYTES = 2 * 1024 * 1024;
+
+// Reports one server keeps at once, expired ones not counted
+export const MAX_REPORTS = 10000;
+
+// One line summing up a report, for link previews
+export function describeReport(counts: LinkCounts): string {
+  const issues = counts.brokenLinks + counts.suspectedBroken;
+  const parts = [`${counts.workingLinks} working`, `${counts.redirects} redirecting`, `${issues} broken or suspected broken`];
+  if (counts.flaggedLinks > 0) {
+    parts.push(`${counts.flaggedLinks} flagged`);
+  }
+  return `${counts.totalLinks} link${counts.totalLinks !== 1 ? 's' : ''} checked: ${parts.join(', ')}.`;
+}
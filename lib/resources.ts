@@ -0,0 +1,36 @@
+export type ResourceKind = 'link' | 'image' | 'og-image' | 'twitter-image' | 'icon' | 'embed' | 'rel-me';
+
+export interface ResourceKindInfo {
+  label: string;
+  // What a working response has to be; resources without one only need to load
+  expects?: 'image';
+}
+
+export const RESOURCE_KINDS: Record<ResourceKind, ResourceKindInfo> = {
+  link: { label: 'Link' },
+  image: { label: 'Image', expects: 'image' },
+  'og-image': { label: 'og:image', expects: 'image' },
+  'twitter-image': { label: 'twitter:image', expects: 'image' },
+  icon: { label: 'Favicon', expects: 'image' },
+  embed: { label: 'Embed' },
+  'rel-me': { label: 'rel="me"' },
+};
+
+// Servers often send .ico files without a specific type
+const GENERIC_CONTENT_TYPES = ['application/octet-stream', 'binary/octet-stream'];
+
+// Explain why a working response isn't what this kind of resource needs, or return undefined when it is.
+// A missing Content-Type gets the benefit of the doubt.
+export function contentTypeProblem(kind: ResourceKind, contentType: string | undefined): string | undefined {
+  const expects = RESOURCE_KINDS[kind].expects;
+  if (!expects || !contentType) {
+    return undefined;
+  }
+
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  if (mimeType.startsWith(`${expects}/`) || (kind === 'icon' && GENERIC_CONTENT_TYPES.includes(mimeType))) {
+    return undefined;
+  }
+
+  return `Expected an ${expects}, got ${mimeType || 'an unknown type'}`;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseRobots } from './robots';
+
+describe('parseRobots', () => {
+  it('allows everything when there are no rules for us or for everyone', () => {
+    const policy = parseRobots('User-agent: googlebot\nDisallow: /');
+    expect(policy.isAllowed('https://site.com/anything')).toBe(true);
+    expect(parseRobots('').isAllowed('https://site.com/')).toBe(true);
+  });
+
+  it('uses the wildcard group when no group names us', () => {
+    const policy = parseRobots('User-agent: *\nDisallow: /private\n');
+    expect(policy.isAllowed('https://site.com/private/page')).toBe(false);
+    expect(policy.isAllowed('https://site.com/public')).toBe(true);
+  });
+
+  it('prefers a group naming us over the wildcard group', () => {
+    const policy = parseRobots('User-agent: *\nDisallow: /\n\nUser-agent: Clearout\nDisallow: /admin');
+    expect(policy.isAllowed('https://site.com/')).toBe(true);
+    expect(policy.isAllowed('https://site.com/admin')).toBe(false);
+  });
+
+  it('shares rules between consecutive User-agent lines', () => {
+    const policy = parseRobots('User-agent: otherbot\nUser-agent: clearout\nDisallow: /shared');
+    expect(policy.isAllowed('https://site.com/shared')).toBe(false);
+  });
+
+  it('lets the longest matching rule decide, with Allow winning a tie', () => {
+    const policy = parseRobots('User-agent: *\nDisallow: /shop\nAllow: /shop/public\nAllow: /tie\nDisallow: /tie');
+    expect(policy.isAllowed('https://site.com/shop/cart')).toBe(false);
+    expect(policy.isAllowed('https://site.com/shop/public/item')).toBe(true);
+    expect(policy.isAllowed('https://site.com/tie')).toBe(true);
+  });
+
+  it('supports * wildcards, $ anchors and query strings', () => {
+    const policy = parseRobots('User-agent: *\nDisallow: /*.pdf$\nDisallow: /search?q=');
+    expect(policy.isAllowed('https://site.com/files/report.pdf')).toBe(false);
+    expect(policy.isAllowed('https://site.com/files/report.pdf.html')).toBe(true);
+    expect(policy.isAllowed('https://site.com/search?q=shoes')).toBe(false);
+    expect(policy.isAllowed('https://site.com/search')).toBe(true);
+  });
+
+  it('ignores comments, blank Disallow lines, CRLF endings and rules outside a group', () => {
+    const policy = parseRobots('Disallow: /orphan\r\nUser-agent: * # everyone\r\nDisallow:\r\nDisallow: /tmp # scratch\r\n');
+    expect(policy.isAllowed('https://site.com/orphan')).toBe(true);
+    expect(policy.isAllowed('https://site.com/tmp/file')).toBe(false);
+    expect(policy.isAllowed('https://site.com/')).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { followSignal, readBodySample, safeFetch } from './safe-fetch';
+import { DEFAULT_SCAN_OPTIONS, type ScanOptions } from './scan-options';
+
+// Names matched against robots.txt User-agent lines; groups naming us win over "*"
+const ROBOTS_AGENTS = ['clearout', 'clearout.bio'];
+
+// robots.txt files are only read up to this size, as RFC 9309 allows
+const MAX_ROBOTS_BYTES = 512 * 1024;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+export interface RobotsPolicy {
+  isAllowed(url: string): boolean;
+}
+
+const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true };
+const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false };
+
+// "*" matches any run of characters and a trailing "$" anchors the end; everything else is literal
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+function parseGroups(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share the rules that follow them
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (current && (field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value, pattern: toPattern(value) });
+    }
+  }
+
+  return groups;
+}
+
+// Build a policy from robots.txt text: the longest matching rule decides, and Allow wins a tie
+export function parseRobots(text: string): RobotsPolicy {
+  const groups = parseGroups(text);
+  const ours = groups.filter(group => group.agents.some(agent => ROBOTS_AGENTS.includes(agent)));
+  const rules = (ours.length > 0 ? ours : groups.filter(group => group.agents.includes('*'))).flatMap(group => group.rules);
+
+  if (rules.length === 0) {
+    return ALLOW_ALL;
+  }
+
+  return {
+    isAllowed(url) {
+      const { pathname, search } = new URL(url);
+      const target = pathname + search;
+      let match: RobotsRule | undefined;
+
+      for (const rule of rules) {
+        if (!rule.pattern.test(target)) continue;
+        if (!match || rule.path.length > match.path.length || (rule.path.length === match.path.length && rule.allow)) {
+          match = rule;
+        }
+      }
+
+      return match?.allow ?? true;
+    },
+  };
+}
+
+// Fetch an origin's robots.txt. A missing file allows everything; a server error or an unreachable
+// host disallows everything, as RFC 9309 asks crawlers to do, and so does one that doesn't answer
+// within the page timeout.
+export async function fetchRobots(origin: string, signal?: AbortSignal, options: ScanOptions = DEFAULT_SCAN_OPTIONS): Promise<RobotsPolicy> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.pageTimeoutMs);
+  const unfollow = followSignal(signal, controller);
+
+  try {
+    const result = await safeFetch(`${origin}/robots.txt`, {
+      signal: controller.signal,
+      headers: {
+        ...options.headers,
+        'User-Agent': options.userAgent,
+      },
+    });
+
+    if ('blocked' in result) {
+      return DISALLOW_ALL;
+    }
+
+    const { response } = result;
+    if (response.status >= 400 && response.status < 500) {
+      await response.body?.cancel();
+      return ALLOW_ALL;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return DISALLOW_ALL;
+    }
+
+    return parseRobots((await readBodySample(response, MAX_ROBOTS_BYTES)).text);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return DISALLOW_ALL;
+  } finally {
+    clearTimeout(timeoutId);
+    unfollow();
+  }
+}
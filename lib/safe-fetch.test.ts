@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { blockedAddressReason, checkUrlSafety } from './safe-fetch';
+
+describe('blockedAddressReason', () => {
+  it('blocks private, loopback, link-local and reserved IPv4 addresses', () => {
+    expect(blockedAddressReason('127.0.0.1')).toBe('loopback address');
+    expect(blockedAddressReason('10.1.2.3')).toBe('private network');
+    expect(blockedAddressReason('172.31.255.255')).toBe('private network');
+    expect(blockedAddressReason('192.168.1.1')).toBe('private network');
+    expect(blockedAddressReason('169.254.169.254')).toBe('link-local or cloud metadata address');
+    expect(blockedAddressReason('100.64.0.1')).toBe('carrier-grade NAT');
+    expect(blockedAddressReason('0.0.0.0')).toBe('unspecified address');
+    expect(blockedAddressReason('239.1.1.1')).toBe('multicast address');
+  });
+
+  it('allows public IPv4 addresses, including ones next to blocked ranges', () => {
+    expect(blockedAddressReason('93.184.216.34')).toBeNull();
+    expect(blockedAddressReason('172.32.0.1')).toBeNull();
+    expect(blockedAddressReason('11.0.0.1')).toBeNull();
+  });
+
+  it('blocks internal IPv6 addresses', () => {
+    expect(blockedAddressReason('::')).toBe('unspecified address');
+    expect(blockedAddressReason('::1')).toBe('loopback address');
+    expect(blockedAddressReason('fd12:3456::1')).toBe('private network');
+    expect(blockedAddressReason('fe80::1%eth0')).toBe('link-local address');
+    expect(blockedAddressReason('ff02::1')).toBe('multicast address');
+  });
+
+  it('checks the IPv4 address embedded in mapped, compatible, NAT64 and 6to4 addresses', () => {
+    expect(blockedAddressReason('::ffff:127.0.0.1')).toBe('loopback address');
+    expect(blockedAddressReason('::ffff:a9fe:a9fe')).toBe('link-local or cloud metadata address');
+    expect(blockedAddressReason('::127.0.0.1')).toBe('loopback address');
+    expect(blockedAddressReason('::7f00:1')).toBe('loopback address');
+    expect(blockedAddressReason('::10.0.0.1')).toBe('private network');
+    expect(blockedAddressReason('64:ff9b::192.168.0.1')).toBe('private network');
+    expect(blockedAddressReason('2002:7f00:1::')).toBe('loopback address');
+    expect(blockedAddressReason('2002:c0a8:101::1')).toBe('private network');
+  });
+
+  it('allows public IPv6 addresses and embedded public IPv4 addresses', () => {
+    expect(blockedAddressReason('2606:4700:4700::1111')).toBeNull();
+    expect(blockedAddressReason('::ffff:93.184.216.34')).toBeNull();
+    expect(blockedAddressReason('2002:5db8:d822::1')).toBeNull();
+  });
+});
+
+describe('checkUrlSafety', () => {
+  it('blocks URLs that name an internal host or address directly', async () => {
+    expect(await checkUrlSafety('http://localhost/')).toBe('localhost is an internal host');
+    expect(await checkUrlSafety('http://metadata.google.internal/')).toBe('metadata.google.internal is an internal host');
+    expect(await checkUrlSafety('http://[::127.0.0.1]/')).toBe('::7f00:1 is a loopback address');
+    expect(await checkUrlSafety('http://[2002:a00:1::]/')).toBe('2002:a00:1:: is a private network');
+  });
+
+  it('blocks other schemes and ports', async () => {
+    expect(await checkUrlSafety('ftp://example.com/')).toBe('ftp links are not checked');
+    expect(await checkUrlSafety('http://93.184.216.34:6379/')).toBe('port 6379 is not allowed');
+  });
+
+  it('allows public addresses', async () => {
+    expect(await checkUrlSafety('https://93.184.216.34/')).toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Only plain web links are fetched; everything else is reported as blocked
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const ALLOWED_PORTS = ['', '80', '443', '8080', '8443'];
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal', 'instance-data'];
+
+// IPv4 ranges that must never be reached from a public endpoint: [network, prefix length, description]
+const BLOCKED_IPV4_RANGES: [string, number, string][] = [
+  ['0.0.0.0', 8, 'unspecified address'],
+  ['10.0.0.0', 8, 'private network'],
+  ['100.64.0.0', 10, 'carrier-grade NAT'],
+  ['127.0.0.0', 8, 'loopback address'],
+  ['169.254.0.0', 16, 'link-local or cloud metadata address'],
+  ['172.16.0.0', 12, 'private network'],
+  ['192.0.0.0', 24, 'IETF protocol assignment'],
+  ['192.168.0.0', 16, 'private network'],
+  ['198.18.0.0', 15, 'benchmarking network'],
+  ['224.0.0.0', 4, 'multicast address'],
+  ['240.0.0.0', 4, 'reserved address'],
+];
+
+// Set CLEAROUT_ALLOW_PRIVATE_HOSTS=1 to scan pages on your own machine (any port) during development.
+// Read on every check so the CLI can turn it on after this module has loaded.
+function allowPrivateHosts(): boolean {
+  return process.env.CLEAROUT_ALLOW_PRIVATE_HOSTS === '1';
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((total, octet) => total * 256 + Number(octet), 0);
+}
+
+function blockedIpv4Reason(address: string): string | null {
+  const value = ipv4ToNumber(address);
+  for (const [network, prefix, description] of BLOCKED_IPV4_RANGES) {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    if (value >= start && value < start + size) {
+      return description;
+    }
+  }
+  return null;
+}
+
+// Expand an IPv6 address into its eight 16-bit groups
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0].toLowerCase();
+
+  // Trailing dotted IPv4 (e.g. ::ffff:127.0.0.1) becomes two groups
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = text.slice(0, -dotted[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail !== undefined ? [...headGroups, ...Array(missing).fill('0'), ...tailGroups] : headGroups;
+
+  return groups.map(group => parseInt(group, 16) || 0);
+}
+
+function embeddedIpv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function blockedIpv6Reason(address: string): string | null {
+  const groups = ipv6Groups(address);
+
+  if (groups.every(group => group === 0)) {
+    return 'unspecified address';
+  }
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] === 1) {
+    return 'loopback address';
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses end
+  // in an IPv4 address to check, and 6to4 addresses (2002:aabb:ccdd::/48) carry one after the prefix
+  const isMapped = groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0);
+  const isNat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (isMapped || isNat64) {
+    return blockedIpv4Reason(embeddedIpv4(groups[6], groups[7]));
+  }
+  if (groups[0] === 0x2002) {
+    return blockedIpv4Reason(embeddedIpv4(groups[1], groups[2]));
+  }
+
+  if ((groups[0] & 0xfe00) === 0xfc00) {
+    return 'private network';
+  }
+  if ((groups[0] & 0xffc0) === 0xfe80) {
+    return 'link-local address';
+  }
+  if ((groups[0] & 0xff00) === 0xff00) {
+    return 'multicast address';
+  }
+
+  return null;
+}
+
+export function blockedAddressReason(address: string): string | null {
+  const version = isIP(address);
+  if (version === 4) {
+    return blockedIpv4Reason(address);
+  }
+  if (version === 6) {
+    return blockedIpv6Reason(address);
+  }
+  return null;
+}
+
+// Thrown from a connection attempt when the address a hostname resolved to is internal
+export class BlockedAddressError extends Error {
+  code = 'EBLOCKED';
+
+  constructor(public reason: string) {
+    super(reason);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+// What Node passes to a lookup when it wants a single address rather than all of them
+type SingleLookupCallback = (error: NodeJS.ErrnoException | null, address: string, family: number) => void;
+
+// dns.lookup for outgoing connections that refuses internal addresses. checkUrlSafety resolves names
+// ahead of time for a readable error, but a name can resolve differently a moment later (DNS
+// rebinding), so the address a socket actually connects to is checked here as well.
+export const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const reason = allowPrivateHosts() ? null : addresses.map(entry => blockedAddressReason(entry.address)).find(Boolean);
+    if (reason) {
+      callback(new BlockedAddressError(`${hostname} resolves to a ${reason}`), []);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      (callback as unknown as SingleLookupCallback)(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Every outgoing request goes through this agent, so its connections use guardedLookup
+const guardedAgent = new Agent({ connect: { lookup: guardedLookup } });
+
+// fetch through the guarded agent
+export function guardedFetch(url: string, init: RequestInit): Promise<Response> {
+  return fetch(url, { ...init, dispatcher: guardedAgent } as RequestInit);
+}
+
+// The reason a failed fetch was refused by guardedLookup, if that is why it failed
+export function blockedConnectionReason(error: unknown): string | undefined {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return cause instanceof BlockedAddressError ? cause.reason : undefined;
+}
+
+// Returns why a URL may not be fetched, or null when it is safe. Hostnames are resolved so that
+// names pointing at internal addresses are caught too.
+export async function checkUrlSafety(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalid URL';
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    return `${parsed.protocol.replace(':', '')} links are not checked`;
+  }
+
+  if (allowPrivateHosts()) {
+    return null;
+  }
+
+  if (!ALLOWED_PORTS.includes(parsed.port)) {
+    return `port ${parsed.port} is not allowed`;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '');
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    return `${hostname} is an internal host`;
+  }
+
+  if (isIP(hostname)) {
+    const reason = blockedAddressReason(hostname);
+    return reason ? `${hostname} is a ${reason}` : null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = (await lookup(hostname, { all: true })).map(entry => entry.address);
+  } catch {
+    // Let the fetch itself report DNS failures
+    return null;
+  }
+
+  for (const address of addresses) {
+    const reason = blockedAddressReason(address);
+    if (reason) {
+      return `${hostname} resolves to a ${reason}`;
+    }
+  }
+
+  return null;
+}
+
+export type SafeFetchResult = { response: Response; url: string } | { blocked: string; url: string };
+
+// Fetch a URL, following redirects manually so every hop is checked before it is requested
+export async function safeFetch(url: string, init: RequestInit, maxRedirects = 10): Promise<SafeFetchResult> {
+  let currentUrl = url;
+
+  for (let hop = 0; ; hop++) {
+    const blocked = await checkUrlSafety(currentUrl);
+    if (blocked) {
+      return { blocked, url: currentUrl };
+    }
+
+    let response: Response;
+    try {
+      response = await guardedFetch(currentUrl, { ...init, redirect: 'manual' });
+    } catch (error) {
+      const reason = blockedConnectionReason(error);
+      if (reason) {
+        return { blocked: reason, url: currentUrl };
+      }
+      throw error;
+    }
+    const location = response.headers.get('location');
+
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location || hop >= maxRedirects) {
+      return { response, url: currentUrl };
+    }
+
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).href;
+  }
+}
+
+// Read at most `limit` bytes of a response body, reporting whether the whole body fit
+export async function readBodySample(response: Response, limit: number): Promise<{ text: string; complete: boolean }> {
+  if (!response.body) {
+    return { text: '', complete: true };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let complete = false;
+
+  while (received < limit) {
+    const { done, value } = await reader.read();
+    if (done) {
+      complete = true;
+      break;
+    }
+    chunks.push(value);
+    received += value.length;
+  }
+
+  if (!complete) {
+    await reader.cancel();
+  }
+
+  // A ranged response only holds part of the page; the total size lives in Content-Range
+  const totalSize = response.headers.get('content-range')?.split('/')[1];
+  if (response.status === 206 && totalSize && totalSize !== '*' && Number(totalSize) > received) {
+    complete = false;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return { text: new TextDecoder().decode(bytes), complete };
+}
+
+// Abort `controller` when the caller's signal aborts; returns a function that stops listening
+export function followSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  if (signal.aborted) {
+    controller.abort();
+  }
+  const abort = () => controller.abort();
+  signal.addEventListener('abort', abort, { once: true });
+  return () => signal.removeEventListener('abort', abort);
+}
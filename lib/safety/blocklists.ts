@@ -0,0 +1,91 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// Lists are re-read this often, so updated files are picked up without a restart
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+interface CachedList {
+  domains: Set<string>;
+  loadedAt: number;
+}
+
+const cache = new Map<string, CachedList>();
+
+// The repo's blocklists/ as seen from the web app's working directory, then from this module in the
+// source tree (lib/safety) and in the built CLI (dist/lib/safety), which can be run from anywhere
+const DEFAULT_DIRECTORIES = [
+  path.join(process.cwd(), 'blocklists'),
+  path.join(__dirname, '..', '..', 'blocklists'),
+  path.join(__dirname, '..', '..', '..', 'blocklists'),
+];
+
+let warnedMissingDirectory = false;
+
+// Where blocklist files live; CLEAROUT_BLOCKLIST_DIR overrides it
+export function getBlocklistDirectory(): string {
+  if (process.env.CLEAROUT_BLOCKLIST_DIR) {
+    return process.env.CLEAROUT_BLOCKLIST_DIR;
+  }
+
+  const directory = DEFAULT_DIRECTORIES.find(candidate => existsSync(candidate));
+  if (directory) {
+    return directory;
+  }
+
+  // Without the lists every blocklist check silently passes, so say so once
+  if (!warnedMissingDirectory) {
+    warnedMissingDirectory = true;
+    console.warn(`No blocklists directory found at ${DEFAULT_DIRECTORIES[0]}; set CLEAROUT_BLOCKLIST_DIR to enable blocklist checks`);
+  }
+  return DEFAULT_DIRECTORIES[0];
+}
+
+// One domain per line; # starts a comment. Hosts-file lines ("0.0.0.0 example.com") and "*." prefixes are accepted,
+// so most published domain feeds can be dropped in as they are.
+export function parseBlocklist(text: string): Set<string> {
+  const domains = new Set<string>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const fields = rawLine.replace(/#.*$/, '').trim().split(/\s+/);
+    const domain = fields[fields.length - 1].toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+    if (domain && domain !== 'localhost') {
+      domains.add(domain);
+    }
+  }
+
+  return domains;
+}
+
+// Read a blocklist file; a missing file is an empty list
+export async function loadBlocklist(name: string): Promise<Set<string>> {
+  const cached = cache.get(name);
+  if (cached && Date.now() - cached.loadedAt < RELOAD_INTERVAL_MS) {
+    return cached.domains;
+  }
+
+  let domains: Set<string>;
+  try {
+    domains = parseBlocklist(await readFile(path.join(getBlocklistDirectory(), name), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error reading blocklist ${name}:`, error);
+    }
+    domains = cached?.domains ?? new Set();
+  }
+
+  cache.set(name, { domains, loadedAt: Date.now() });
+  return domains;
+}
+
+// Find the listed domain a hostname falls under, checking the host itself and then each parent domain
+export function findListedDomain(hostname: string, domains: Set<string>): string | undefined {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  for (let i = 0; i < labels.length; i++) {
+    const domain = labels.slice(i).join('.');
+    if (domains.has(domain)) {
+      return domain;
+    }
+  }
+  return undefined;
+}
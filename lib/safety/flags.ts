@@ -0,0 +1,32 @@
+export type SafetyFlag = 'malware' | 'parked' | 'shortener' | 'mixed-content';
+
+// One reason a link is unsafe or unreliable even though it may load fine
+export interface SafetyIssue {
+  flag: SafetyFlag;
+  reason: string;
+}
+
+export interface SafetyFlagInfo {
+  label: string;
+  explanation: string;
+}
+
+// Listed from most to least serious
+export const SAFETY_FLAGS: Record<SafetyFlag, SafetyFlagInfo> = {
+  malware: {
+    label: 'Malware or phishing',
+    explanation: 'The link leads to a host on a malware or phishing blocklist. Remove it before visitors click it.',
+  },
+  parked: {
+    label: 'Parked domain',
+    explanation: 'The domain ends up on a parking page, which usually means it expired and was bought by someone else.',
+  },
+  shortener: {
+    label: 'URL shortener',
+    explanation: "The link goes through a URL shortener, which hides where it leads and breaks if the shortener shuts down. Link to the destination directly.",
+  },
+  'mixed-content': {
+    label: 'Insecure http',
+    explanation: 'Part of the way to this link is plain http, so browsers may warn visitors or block it on an https page. Switch it to https.',
+  },
+};
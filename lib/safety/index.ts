@@ -0,0 +1,87 @@
+import type { LinkCheck } from '../types';
+import { findListedDomain, loadBlocklist } from './blocklists';
+import type { SafetyFlag, SafetyIssue } from './flags';
+
+export { SAFETY_FLAGS, type SafetyFlag, type SafetyFlagInfo, type SafetyIssue } from './flags';
+
+export interface SafetyCheck {
+  name: string;
+  check(link: LinkCheck): Promise<SafetyIssue[]> | SafetyIssue[];
+}
+
+const safetyChecks: SafetyCheck[] = [];
+
+// Add a stage to the checks every link's redirect chain goes through after it has been requested
+export function registerSafetyCheck(check: SafetyCheck): void {
+  safetyChecks.push(check);
+}
+
+// Every URL the link passed through, ending with where it landed
+function visitedUrls(link: LinkCheck): string[] {
+  const urls = link.redirectChain.map(hop => hop.url);
+  return urls[urls.length - 1] === link.finalUrl ? urls : [...urls, link.finalUrl];
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+// Flag a link when any URL on its way matches a domain in the named blocklist file
+export function blocklistCheck(flag: SafetyFlag, file: string, describe: (domain: string) => string): SafetyCheck {
+  return {
+    name: `blocklist:${file}`,
+    async check(link) {
+      const domains = await loadBlocklist(file);
+      if (domains.size === 0) {
+        return [];
+      }
+
+      for (const url of visitedUrls(link)) {
+        const hostname = hostnameOf(url);
+        const domain = hostname && findListedDomain(hostname, domains);
+        if (domain) {
+          return [{ flag, reason: describe(domain) }];
+        }
+      }
+      return [];
+    },
+  };
+}
+
+// Flag links that are, or pass through, plain http
+export const mixedContentCheck: SafetyCheck = {
+  name: 'mixed-content',
+  check(link) {
+    if (link.originalUrl.startsWith('http:')) {
+      return [{ flag: 'mixed-content', reason: 'Link uses plain http' }];
+    }
+
+    const insecureHop = visitedUrls(link).find(url => url.startsWith('http:'));
+    return insecureHop ? [{ flag: 'mixed-content', reason: `Redirects through plain http (${hostnameOf(insecureHop)})` }] : [];
+  },
+};
+
+registerSafetyCheck(blocklistCheck('malware', 'malware.txt', domain => `${domain} is on the malware/phishing blocklist`));
+registerSafetyCheck(blocklistCheck('parked', 'parking.txt', domain => `Ends up on ${domain}, a domain parking service`));
+registerSafetyCheck(blocklistCheck('shortener', 'shorteners.txt', domain => `Goes through ${domain}, a URL shortener`));
+registerSafetyCheck(mixedContentCheck);
+
+// Run a checked link through every safety check and attach what they found. A failing check is logged
+// and skipped rather than failing the scan.
+export async function applySafetyChecks(link: LinkCheck): Promise<LinkCheck> {
+  const issues: SafetyIssue[] = [];
+
+  for (const safetyCheck of safetyChecks) {
+    try {
+      issues.push(...(await safetyCheck.check(link)));
+    } catch (error) {
+      console.error(`Error running safety check ${safetyCheck.name}:`, error);
+    }
+  }
+
+  return issues.length > 0 ? { ...link, safety: issues } : link;
+}
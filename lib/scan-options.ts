@@ -0,0 +1,165 @@
+import { RE2JS } from 're2js';
+import type { ExtractedLink } from './extractors/types';
+import { DEFAULT_GRADING_RULES, type GradingRules } from './grading';
+
+// How a scan fetches and judges links. Every field has a default, so callers only set what they change.
+export interface ScanOptions {
+  // Per link check, and for fetching the page (or sitemap, or crawled pages) the links come from
+  linkTimeoutMs: number;
+  pageTimeoutMs: number;
+  // Checks running at once overall, and against a single host
+  concurrency: number;
+  perHostConcurrency: number;
+  userAgent: string;
+  // Extra request headers, e.g. a cookie for a staging site
+  headers: Record<string, string>;
+  // Only links matching an include pattern (when there are any) and no exclude pattern are checked.
+  // A pattern written as /regex/flags is a regular expression (RE2 syntax: no backreferences or
+  // lookarounds); anything else is a glob where * matches any run of characters and ? a single one,
+  // matched against the whole URL.
+  include: string[];
+  exclude: string[];
+  // Count a redirect that stays on the same site (http -> https, adding a trailing slash) as working
+  sameDomainRedirectsOk: boolean;
+  // Check the syntax of mailto: and tel: links instead of skipping them
+  validateContactLinks: boolean;
+  grading: GradingRules;
+}
+
+// What a request or the CLI may set; anything left out takes its default
+export type ScanOptionsInput = Partial<Omit<ScanOptions, 'grading'>> & { grading?: Partial<GradingRules> };
+
+export const DEFAULT_USER_AGENT = 'ClearOut.bio Link Checker 1.0';
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  linkTimeoutMs: 10000,
+  pageTimeoutMs: 15000,
+  concurrency: 10,
+  perHostConcurrency: 2,
+  userAgent: DEFAULT_USER_AGENT,
+  headers: {},
+  include: [],
+  exclude: [],
+  sameDomainRedirectsOk: false,
+  validateContactLinks: false,
+  grading: DEFAULT_GRADING_RULES,
+};
+
+export const SCAN_OPTION_LIMITS = {
+  linkTimeoutMs: { minimum: 1000, maximum: 60000 },
+  pageTimeoutMs: { minimum: 1000, maximum: 60000 },
+  concurrency: { minimum: 1, maximum: 20 },
+  perHostConcurrency: { minimum: 1, maximum: 5 },
+  patterns: 50,
+  patternLength: 500,
+} as const;
+
+// Headers the scanner sets itself or that would break the request
+const RESERVED_HEADERS = ['host', 'connection', 'content-length', 'transfer-encoding', 'range', 'user-agent'];
+
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// Regex flags a pattern may use, mapped to the engine's; g and y only change where JavaScript resumes
+// matching, so they are accepted and ignored
+const PATTERN_FLAGS: Record<string, number> = {
+  i: RE2JS.CASE_INSENSITIVE,
+  m: RE2JS.MULTILINE,
+  s: RE2JS.DOTALL,
+  g: 0,
+  y: 0,
+  u: 0,
+};
+
+// Turn a pattern into a matcher, or return why it isn't one. Patterns come from API requests and run on
+// the server, so they are compiled with RE2, which matches in linear time and can't be made to backtrack;
+// backreferences and lookarounds are rejected as a result.
+export function compilePattern(pattern: string): RE2JS | string {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    let flags = 0;
+    for (const flag of regex[2].split('')) {
+      if (!(flag in PATTERN_FLAGS)) {
+        return `${pattern} uses the unsupported flag ${flag}`;
+      }
+      flags |= PATTERN_FLAGS[flag];
+    }
+    try {
+      return RE2JS.compile(regex[1], flags);
+    } catch {
+      return `${pattern} is not a supported regular expression`;
+    }
+  }
+
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : RE2JS.quote(char)))
+    .join('');
+  return RE2JS.compile(`^${source}$`, RE2JS.CASE_INSENSITIVE);
+}
+
+// Copy the fields that are set, so an explicit undefined doesn't replace a default
+function definedFields<T extends object>(value: T): Partial<T> {
+  const fields: Partial<T> = {};
+  (Object.keys(value) as (keyof T)[]).forEach(key => {
+    if (value[key] !== undefined) fields[key] = value[key];
+  });
+  return fields;
+}
+
+// Fill in defaults and check what can't be expressed in the request schema. Returns an error message
+// for the first problem found.
+export function resolveScanOptions(options: ScanOptionsInput = {}): { options: ScanOptions } | { error: string } {
+  const resolved: ScanOptions = {
+    ...DEFAULT_SCAN_OPTIONS,
+    ...definedFields(options),
+    grading: { ...DEFAULT_SCAN_OPTIONS.grading, ...definedFields(options.grading ?? {}) },
+  };
+  resolved.userAgent = resolved.userAgent.trim() || DEFAULT_USER_AGENT;
+
+  for (const name of Object.keys(resolved.headers)) {
+    if (!HEADER_NAME.test(name)) {
+      return { error: `${name} is not a valid header name` };
+    }
+    if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      return { error: `The ${name} header can't be set${name.toLowerCase() === 'user-agent' ? '; use userAgent' : ''}` };
+    }
+  }
+
+  for (const pattern of [...resolved.include, ...resolved.exclude]) {
+    const compiled = compilePattern(pattern);
+    if (typeof compiled === 'string') {
+      return { error: compiled };
+    }
+  }
+
+  if (resolved.grading.degradedMs < resolved.grading.slowMs) {
+    return { error: 'grading.degradedMs must be at least grading.slowMs' };
+  }
+
+  return { options: resolved };
+}
+
+// Drop links the include and exclude patterns rule out. Patterns are expected to have passed
+// resolveScanOptions; any that don't compile are ignored.
+export function filterLinks(links: ExtractedLink[], options: ScanOptions): ExtractedLink[] {
+  const compile = (patterns: string[]) =>
+    patterns.map(compilePattern).filter((pattern): pattern is RE2JS => typeof pattern !== 'string');
+  const include = compile(options.include);
+  const exclude = compile(options.exclude);
+
+  if (include.length === 0 && exclude.length === 0) {
+    return links;
+  }
+  return links.filter(
+    link => (include.length === 0 || include.some(pattern => pattern.test(link.url))) && !exclude.some(pattern => pattern.test(link.url))
+  );
+}
+
+// Helper function to tell whether two URLs are on the same site, ignoring a leading www.
+export function isSameSite(a: string, b: string): boolean {
+  try {
+    return new URL(a).hostname.replace(/^www\./, '') === new URL(b).hostname.replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { detectSoft404 } from './scanner';
+
+// Enough text that a page isn't flagged for being nearly empty
+const content = `<p>${'Fresh bread every morning. '.repeat(30)}</p>`;
+
+function page(title: string, body = content) {
+  return { text: `<html><head><title>${title}</title></head><body>${body}</body></html>`, complete: true };
+}
+
+describe('detectSoft404', () => {
+  it('flags a link that redirects to its own site\'s homepage', () => {
+    expect(detectSoft404('https://example.com/spring-sale', 'https://www.example.com/')).toBe('Redirected to the homepage');
+  });
+
+  it('accepts a shortener or vanity domain that redirects to another site\'s homepage', () => {
+    expect(detectSoft404('https://bit.ly/x', 'https://creator.com/')).toBeUndefined();
+    expect(detectSoft404('https://go.example.com/shop', 'https://example.com/')).toBeUndefined();
+  });
+
+  it('accepts a homepage link that stays on the homepage', () => {
+    expect(detectSoft404('https://example.com/', 'https://example.com/', page('Example'))).toBeUndefined();
+  });
+
+  it('flags pages whose title or heading says they were not found', () => {
+    expect(detectSoft404('https://example.com/a', 'https://example.com/a', page('Page not found'))).toBe('Page title says "Page not found"');
+    expect(detectSoft404('https://example.com/a', 'https://example.com/a', page('Example', `<h1>404</h1>${content}`))).toBe(
+      'Page heading says "404"'
+    );
+  });
+
+  it('flags pages with almost no content', () => {
+    expect(detectSoft404('https://example.com/a', 'https://example.com/a', page('Example', ''))).toBe('Page has almost no content');
+  });
+});
@@ -0,0 +1,530 @@
+import { load } from 'cheerio';
+import { ERROR_KINDS, errorKindForError, errorKindForStatus, getErrorCode } from './errors';
+import { extractLinks, type ExtractedLink, type ExtractOptions } from './extractors';
+import { gradeLink } from './grading';
+import { summarize, summarizeBatch, toLinkResult } from './summary';
+import type { BatchPage, BatchScanEvent, BatchScanResult, LinkCheck, LinkResult, RedirectHop, ScanResult } from './types';
+import { isValidUrl } from './url';
+import { blockedConnectionReason, checkUrlSafety, followSignal, guardedFetch, readBodySample, safeFetch } from './safe-fetch';
+import { applySafetyChecks } from './safety';
+import { DEFAULT_SCAN_OPTIONS, filterLinks, isSameSite, type ScanOptions } from './scan-options';
+import { DEFAULT_SCHEDULER_OPTIONS, scheduleByHost, type TaskOutcome } from './scheduler';
+import { probeTls } from './tls-probe';
+
+// Maximum number of redirects to follow before giving up on a link
+const MAX_REDIRECTS = 10;
+
+// Status codes some hosts (Instagram, Amazon, some CDNs) send back for HEAD requests they refuse to serve
+const HEAD_REJECTED_STATUSES = [400, 403, 405, 501];
+
+// How much of a page body to download when looking for soft 404s
+const BODY_SAMPLE_BYTES = 32 * 1024;
+
+// Pages smaller than this are treated as empty placeholders
+const MIN_CONTENT_BYTES = 512;
+
+const SOFT_404_PATTERN =
+  /\b(404|not found|page (does not|doesn't|no longer) exists?|(page|content|link) (is )?(no longer|not) available|(couldn't|could not|can't|cannot) (be )?find|can't be found|isn't available|has been removed)\b/i;
+
+function isRedirectStatus(status: number): boolean {
+  return status >= 300 && status < 400 && status !== 304;
+}
+
+function requestLink(url: string, method: 'HEAD' | 'GET', signal: AbortSignal, options: ScanOptions): Promise<Response> {
+  return guardedFetch(url, {
+    method,
+    signal,
+    headers: {
+      ...options.headers,
+      'User-Agent': options.userAgent,
+      ...(method === 'GET' ? { Range: `bytes=0-${BODY_SAMPLE_BYTES - 1}` } : {}),
+    },
+    redirect: 'manual',
+  });
+}
+
+const EMAIL_ADDRESS = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:".]+$/;
+const PHONE_NUMBER = /^\+?[\d\s().-]+$/;
+
+// Explain what's wrong with a mailto: or tel: link, or return undefined when it is usable
+function contactLinkProblem(url: string): string | undefined {
+  const isEmail = url.toLowerCase().startsWith('mailto:');
+  let value: string;
+  try {
+    value = decodeURIComponent(url.slice(url.indexOf(':') + 1));
+  } catch {
+    return 'Link is not properly encoded';
+  }
+
+  if (isEmail) {
+    const addresses = value.split('?')[0].split(',').map(address => address.trim()).filter(Boolean);
+    if (addresses.length === 0) {
+      return 'No email address';
+    }
+    const invalid = addresses.find(address => !EMAIL_ADDRESS.test(address));
+    return invalid ? `${invalid} is not a valid email address` : undefined;
+  }
+
+  // Extensions and other parameters follow a semicolon
+  const number = value.split(';')[0].trim();
+  const digits = number.replace(/\D/g, '').length;
+  return PHONE_NUMBER.test(number) && digits >= 3 && digits <= 15 ? undefined : `${number || 'Empty number'} is not a valid phone number`;
+}
+
+// mailto: and tel: links can't be requested, only checked for a usable address or number
+function checkContactLink(url: string): LinkCheck {
+  const problem = contactLinkProblem(url);
+  return {
+    originalUrl: url,
+    finalUrl: url,
+    status: 0,
+    statusText: problem ?? (url.toLowerCase().startsWith('mailto:') ? 'Valid email address' : 'Valid phone number'),
+    isWorking: problem === undefined,
+    isRedirect: false,
+    responseTime: 0,
+    classification: problem ? 'broken' : 'working',
+    redirectChain: [],
+    method: 'GET',
+    errorKind: problem ? 'invalid-contact' : undefined,
+  };
+}
+
+// Full size of the response body: a ranged response carries it in Content-Range, anything else in Content-Length
+function responseSize(response: Response): number | undefined {
+  const value = response.status === 206
+    ? response.headers.get('content-range')?.split('/')[1]
+    : response.headers.get('content-length');
+  const size = Number(value);
+  return value && value !== '*' && Number.isInteger(size) && size >= 0 ? size : undefined;
+}
+
+function isHtmlResponse(response: Response): boolean {
+  const contentType = response.headers.get('content-type');
+  return !contentType || contentType.includes('text/html');
+}
+
+// Heuristics for pages that answer 200 but are really "not found" templates. Landing on the homepage only
+// counts on the same site: a shortener or vanity domain redirecting to someone's homepage is doing its job.
+export function detectSoft404(originalUrl: string, finalUrl: string, body?: { text: string; complete: boolean }): string | undefined {
+  const original = new URL(originalUrl);
+  const final = new URL(finalUrl);
+
+  if (
+    isSameSite(originalUrl, finalUrl) &&
+    original.pathname !== '/' &&
+    final.pathname === '/' &&
+    !final.search &&
+    original.href !== final.href
+  ) {
+    return 'Redirected to the homepage';
+  }
+
+  if (!body) {
+    return undefined;
+  }
+
+  const $ = load(body.text);
+  const title = $('title').first().text().trim();
+  if (SOFT_404_PATTERN.test(title)) {
+    return `Page title says "${title}"`;
+  }
+
+  const heading = $('h1').first().text().trim();
+  if (SOFT_404_PATTERN.test(heading)) {
+    return `Page heading says "${heading}"`;
+  }
+
+  if (body.complete && new TextEncoder().encode(body.text).length < MIN_CONTENT_BYTES) {
+    return 'Page has almost no content';
+  }
+
+  return undefined;
+}
+
+// Function to check a single link, following redirects hop by hop so the chain can be reported
+export async function checkLink(url: string, signal?: AbortSignal, options: ScanOptions = DEFAULT_SCAN_OPTIONS): Promise<LinkCheck> {
+  if (/^(mailto|tel):/i.test(url)) {
+    return checkContactLink(url);
+  }
+
+  const startTime = Date.now();
+  const redirectChain: RedirectHop[] = [];
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.linkTimeoutMs);
+  const unfollow = followSignal(signal, controller);
+  let currentUrl = url;
+  let method: 'HEAD' | 'GET' = 'HEAD';
+
+  const blocked = (reason: string): LinkCheck => ({
+    originalUrl: url,
+    finalUrl: currentUrl,
+    status: 0,
+    statusText: `Blocked: ${reason}`,
+    isWorking: false,
+    isRedirect: currentUrl !== url,
+    responseTime: Date.now() - startTime,
+    classification: 'blocked',
+    redirectChain,
+    method,
+    errorKind: 'blocked',
+  });
+
+  try {
+    const visited = new Set<string>([url]);
+
+    while (true) {
+      // Every hop is re-validated so a public link can't redirect into an internal address
+      const blockedReason = await checkUrlSafety(currentUrl);
+      if (blockedReason) {
+        return blocked(blockedReason);
+      }
+
+      let requestStart = Date.now();
+      let response = await requestLink(currentUrl, method, controller.signal, options);
+
+      // Retry with a ranged GET when the host refuses HEAD, and keep using GET for the rest of the chain
+      if (method === 'HEAD' && HEAD_REJECTED_STATUSES.includes(response.status)) {
+        method = 'GET';
+        await response.body?.cancel();
+        requestStart = Date.now();
+        response = await requestLink(currentUrl, method, controller.signal, options);
+      }
+      // fetch resolves once the headers are in
+      const firstByte = Date.now() - requestStart;
+
+      const location = response.headers.get('location');
+      redirectChain.push({ url: currentUrl, status: response.status, location });
+
+      if (!isRedirectStatus(response.status) || !location) {
+        const isWorking = response.status >= 200 && response.status < 400;
+        const isRedirect = redirectChain.length > 1;
+        const isAcceptedRedirect = isRedirect && options.sameDomainRedirectsOk && isSameSite(url, currentUrl);
+        let soft404Reason: string | undefined;
+
+        if (response.status >= 200 && response.status < 300 && isHtmlResponse(response)) {
+          // HEAD responses carry no body, so sample the page with a ranged GET
+          const bodyResponse = method === 'GET' ? response : await requestLink(currentUrl, 'GET', controller.signal, options);
+          let body: { text: string; complete: boolean } | undefined;
+          if (bodyResponse.ok) {
+            body = await readBodySample(bodyResponse, BODY_SAMPLE_BYTES);
+          } else {
+            // Release the connection; only a page that loads is worth sampling
+            await bodyResponse.body?.cancel();
+          }
+          soft404Reason = detectSoft404(url, currentUrl, body);
+        } else {
+          await response.body?.cancel();
+        }
+
+        const responseTime = Date.now() - startTime;
+        const tls = await probeTls(currentUrl, controller.signal);
+
+        return {
+          originalUrl: url,
+          finalUrl: currentUrl,
+          status: response.status,
+          statusText: response.statusText || getStatusText(response.status),
+          isWorking,
+          isRedirect,
+          responseTime,
+          classification: response.status === 429
+            ? 'rate-limited'
+            : !isWorking
+            ? 'broken'
+            : soft404Reason
+            ? 'suspected-broken'
+            : isRedirect && !isAcceptedRedirect
+            ? 'redirect'
+            : 'working',
+          redirectChain,
+          method,
+          soft404Reason,
+          retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+          errorKind: isWorking ? undefined : errorKindForStatus(response.status),
+          contentType: response.headers.get('content-type') ?? undefined,
+          contentLength: responseSize(response),
+          timing: { redirects: requestStart - startTime, firstByte, total: responseTime },
+          httpVersion: tls?.httpVersion,
+          certificateExpiresAt: tls?.certificateExpiresAt,
+        };
+      }
+
+      await response.body?.cancel();
+      const nextUrl = new URL(location, currentUrl).href;
+
+      if (visited.has(nextUrl) || redirectChain.length >= MAX_REDIRECTS) {
+        const isLoop = visited.has(nextUrl);
+
+        return {
+          originalUrl: url,
+          finalUrl: nextUrl,
+          status: response.status,
+          statusText: isLoop ? 'Redirect Loop' : `Too Many Redirects (>${MAX_REDIRECTS})`,
+          isWorking: false,
+          isRedirect: true,
+          responseTime: Date.now() - startTime,
+          classification: isLoop ? 'redirect-loop' : 'too-many-redirects',
+          redirectChain,
+          method,
+          errorKind: isLoop ? 'redirect-loop' : 'too-many-redirects',
+        };
+      }
+
+      visited.add(nextUrl);
+      currentUrl = nextUrl;
+    }
+  } catch (error) {
+    // The name resolved to an internal address when connecting, after passing checkUrlSafety
+    const blockedReason = blockedConnectionReason(error);
+    if (blockedReason) {
+      return blocked(blockedReason);
+    }
+
+    const errorKind = timedOut ? 'timeout' : errorKindForError(error);
+    const errorCode = getErrorCode(error);
+    const hasSystemCode = errorCode !== undefined && /^[A-Z_]+$/.test(errorCode);
+
+    return {
+      originalUrl: url,
+      finalUrl: currentUrl,
+      status: 0,
+      statusText: hasSystemCode ? `${ERROR_KINDS[errorKind].label} (${errorCode})` : ERROR_KINDS[errorKind].label,
+      isWorking: false,
+      isRedirect: currentUrl !== url,
+      responseTime: Date.now() - startTime,
+      classification: 'broken',
+      redirectChain,
+      method,
+      errorCode,
+      errorKind,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+    unfollow();
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
+
+// Network errors worth another attempt; refused connections and DNS misses usually aren't transient
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'EPIPE', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+// Status codes that mean "try again later" rather than "this link is broken"
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+// Decide whether a check should be retried, honoring Retry-After when the host sent one
+function checkOutcome(check: LinkCheck): TaskOutcome<LinkCheck> {
+  const isTransient =
+    TRANSIENT_STATUSES.includes(check.status) ||
+    (check.status === 0 && check.errorCode !== undefined && TRANSIENT_ERROR_CODES.includes(check.errorCode));
+
+  if (!isTransient) {
+    return { result: check };
+  }
+
+  return {
+    result: check,
+    retry: { afterMs: check.retryAfter !== undefined ? check.retryAfter * 1000 : undefined },
+  };
+}
+
+// Helper function to get status text
+function getStatusText(status: number): string {
+  const statusTexts: { [key: number]: string } = {
+    200: 'OK',
+    201: 'Created',
+    206: 'Partial Content',
+    301: 'Moved Permanently',
+    302: 'Found',
+    304: 'Not Modified',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+  };
+  
+  return statusTexts[status] || 'Unknown';
+}
+
+// Maximum number of bio pages accepted in one batch scan
+export const MAX_BATCH_PAGES = 50;
+
+// Check URLs through the per-host scheduler, reporting each check as it completes. Every check then goes
+// through the safety stage, which flags blocklisted hosts and plain-http hops, and is graded for speed
+// and certificate expiry.
+export function checkUrls(
+  urls: string[],
+  onCheck: (index: number, check: LinkCheck) => void,
+  signal?: AbortSignal,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS
+): Promise<LinkCheck[]> {
+  return scheduleByHost(
+    urls,
+    url => checkLink(url, signal, options).then(applySafetyChecks).then(check => gradeLink(check, options.grading)).then(checkOutcome),
+    onCheck,
+    { ...DEFAULT_SCHEDULER_OPTIONS, concurrency: options.concurrency, perHostConcurrency: options.perHostConcurrency },
+    signal
+  );
+}
+
+export async function checkLinks(
+  links: ExtractedLink[],
+  onResult: (index: number, link: LinkResult) => void,
+  signal?: AbortSignal,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS
+): Promise<LinkResult[]> {
+  const checks = await checkUrls(
+    links.map(link => link.url),
+    (index, check) => onResult(index, toLinkResult(check, links[index])),
+    signal,
+    options
+  );
+  return checks.map((check, index) => toLinkResult(check, links[index]));
+}
+
+// `url` is where the page was finally served from, after any redirects
+export type PageFetch = { html: string; url: string; contentType: string | null } | { error: string; status: number };
+
+// Bio pages larger than this are rejected rather than parsed
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+// Fetch the HTML content of a bio page. Aborting `signal` rejects with an AbortError.
+export async function fetchPage(url: string, signal?: AbortSignal, options: ScanOptions = DEFAULT_SCAN_OPTIONS): Promise<PageFetch> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.pageTimeoutMs);
+  const unfollow = followSignal(signal, controller);
+
+  try {
+    const result = await safeFetch(url, {
+      signal: controller.signal,
+      headers: {
+        ...options.headers,
+        'User-Agent': options.userAgent,
+      },
+    });
+
+    if ('blocked' in result) {
+      return { error: `URL is not allowed: ${result.blocked}`, status: 400 };
+    }
+
+    const { response } = result;
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { error: `Failed to fetch URL: ${response.status} ${response.statusText}`, status: 400 };
+    }
+
+    const body = await readBodySample(response, MAX_PAGE_BYTES);
+    if (!body.complete) {
+      return { error: `Page is too large - bio pages over ${MAX_PAGE_BYTES / 1024 / 1024} MB are not scanned`, status: 400 };
+    }
+
+    return { html: body.text, url: result.url, contentType: response.headers.get('content-type') };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError' && !signal?.aborted) {
+      return { error: 'Request timeout - the URL took too long to respond', status: 408 };
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    unfollow();
+  }
+}
+
+// Fetch and extract every page, then check each unique link once no matter how many pages share it
+export async function scanBatch(
+  urls: string[],
+  onEvent: (event: BatchScanEvent) => void,
+  signal?: AbortSignal,
+  extract: ExtractOptions = {},
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS
+): Promise<BatchScanResult> {
+  const pages: BatchPage[] = [];
+  const maxConcurrent = 5;
+
+  for (let i = 0; i < urls.length; i += maxConcurrent) {
+    const batchPages = await Promise.all(
+      urls.slice(i, i + maxConcurrent).map(async (url): Promise<BatchPage> => {
+        if (!isValidUrl(url)) {
+          return { url, links: [], error: 'Invalid URL format' };
+        }
+
+        try {
+          const page = await fetchPage(url, signal, options);
+          return 'html' in page
+            ? { url, links: filterLinks(extractLinks(page.html, page.url, extract), options) }
+            : { url, links: [], error: page.error };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          return { url, links: [], error: error instanceof Error ? error.message : 'Network Error' };
+        }
+      })
+    );
+    pages.push(...batchPages);
+  }
+
+  const uniqueUrls = Array.from(new Set(pages.flatMap(page => page.links.map(link => link.url))));
+  onEvent({ type: 'start', pages, totalLinks: uniqueUrls.length });
+
+  const checks = new Map<string, LinkCheck>();
+  await checkUrls(uniqueUrls, (index, check) => {
+    checks.set(uniqueUrls[index], check);
+    onEvent({ type: 'check', url: uniqueUrls[index], check });
+  }, signal, options);
+
+  return summarizeBatch(pages, checks);
+}
+
+export type PageScan = { result: ScanResult } | { error: string; status: number };
+
+export interface ScanPageHooks {
+  // Called once the page is fetched and its links are known
+  onStart?: (totalLinks: number) => void;
+  onResult?: (index: number, link: LinkResult) => void;
+  signal?: AbortSignal;
+}
+
+// Fetch one bio page and check every link on it
+export async function scanPage(url: string, hooks: ScanPageHooks = {}, options: ScanOptions = DEFAULT_SCAN_OPTIONS): Promise<PageScan> {
+  const page = await fetchPage(url, hooks.signal, options);
+  if ('error' in page) {
+    return page;
+  }
+
+  return { result: await scanHtml(page.html, page.url, hooks, options) };
+}
+
+// Check every link in HTML that was obtained some other way, e.g. read from a local file
+export async function scanHtml(
+  html: string,
+  baseUrl: string,
+  hooks: ScanPageHooks = {},
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS
+): Promise<ScanResult> {
+  const links = filterLinks(extractLinks(html, baseUrl), options);
+  hooks.onStart?.(links.length);
+  const linkResults = await checkLinks(links, hooks.onResult ?? (() => {}), hooks.signal, options);
+  return summarize(linkResults);
+}
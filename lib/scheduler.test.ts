@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { scheduleByHost, type SchedulerOptions, type TaskOutcome } from './scheduler';
+
+const FAST: SchedulerOptions = {
+  concurrency: 4,
+  perHostConcurrency: 2,
+  perHostDelayMs: 0,
+  maxRetries: 2,
+  retryBackoffMs: 5,
+  maxRetryDelayMs: 1000,
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('scheduleByHost', () => {
+  it('resolves with every result in input order and reports each as it finishes', async () => {
+    const urls = ['https://a.com/1', 'https://b.com/1', 'https://a.com/2'];
+    const done: number[] = [];
+    const results = await scheduleByHost(
+      urls,
+      async url => {
+        await wait(url.endsWith('1') ? 20 : 1);
+        return { result: url.toUpperCase() };
+      },
+      index => done.push(index),
+      FAST
+    );
+
+    expect(results).toEqual(['HTTPS://A.COM/1', 'HTTPS://B.COM/1', 'HTTPS://A.COM/2']);
+    expect(done.sort()).toEqual([0, 1, 2]);
+  });
+
+  it('resolves at once when there is nothing to run', async () => {
+    expect(await scheduleByHost([], async () => ({ result: 1 }), () => {}, FAST)).toEqual([]);
+  });
+
+  it('stays under the overall and per-host limits', async () => {
+    const urls = [...Array(6)].map((_, i) => `https://a.com/${i}`).concat([...Array(6)].map((_, i) => `https://host${i}.com/`));
+    let active = 0;
+    let maxActive = 0;
+    const activeOnA = { now: 0, max: 0 };
+
+    await scheduleByHost(
+      urls,
+      async url => {
+        const onA = url.startsWith('https://a.com/');
+        active++;
+        maxActive = Math.max(maxActive, active);
+        if (onA) activeOnA.max = Math.max(activeOnA.max, ++activeOnA.now);
+        await wait(5);
+        active--;
+        if (onA) activeOnA.now--;
+        return { result: url };
+      },
+      () => {},
+      FAST
+    );
+
+    expect(maxActive).toBe(FAST.concurrency);
+    expect(activeOnA.max).toBe(FAST.perHostConcurrency);
+  });
+
+  it('waits the politeness delay between starts on the same host', async () => {
+    const starts: number[] = [];
+    await scheduleByHost(
+      ['https://a.com/1', 'https://a.com/2', 'https://a.com/3'],
+      async url => {
+        starts.push(Date.now());
+        return { result: url };
+      },
+      () => {},
+      { ...FAST, perHostDelayMs: 30 }
+    );
+
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(25);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(25);
+  });
+
+  it('retries transient failures up to maxRetries, then reports the last result', async () => {
+    const attempts = new Map<string, number>();
+    const results = await scheduleByHost(
+      ['https://flaky.com/', 'https://down.com/'],
+      async (url): Promise<TaskOutcome<string>> => {
+        const attempt = (attempts.get(url) ?? 0) + 1;
+        attempts.set(url, attempt);
+        if (url === 'https://flaky.com/' && attempt === 2) return { result: 'ok' };
+        return { result: `failed ${attempt}`, retry: {} };
+      },
+      () => {},
+      FAST
+    );
+
+    expect(results).toEqual(['ok', 'failed 3']);
+    expect(attempts.get('https://down.com/')).toBe(FAST.maxRetries + 1);
+  });
+
+  it('waits out Retry-After before trying the host again, unless it is too long', async () => {
+    const starts: number[] = [];
+    const results = await scheduleByHost(
+      ['https://slow.com/'],
+      async (): Promise<TaskOutcome<string>> => {
+        starts.push(Date.now());
+        return starts.length === 1 ? { result: 'limited', retry: { afterMs: 40 } } : { result: 'ok' };
+      },
+      () => {},
+      FAST
+    );
+    expect(results).toEqual(['ok']);
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(35);
+
+    let calls = 0;
+    const impatient = await scheduleByHost(
+      ['https://slow.com/'],
+      async (): Promise<TaskOutcome<string>> => {
+        calls++;
+        return { result: 'limited', retry: { afterMs: 60 * 60 * 1000 } };
+      },
+      () => {},
+      FAST
+    );
+    expect(impatient).toEqual(['limited']);
+    expect(calls).toBe(1);
+  });
+
+  it('stops starting tasks and rejects when aborted', async () => {
+    const controller = new AbortController();
+    const started: string[] = [];
+    const scan = scheduleByHost(
+      [...Array(10)].map((_, i) => `https://a.com/${i}`),
+      async url => {
+        started.push(url);
+        await wait(10);
+        return { result: url };
+      },
+      () => {},
+      { ...FAST, perHostConcurrency: 1 },
+      controller.signal
+    );
+
+    controller.abort();
+    await expect(scan).rejects.toThrow();
+    await wait(30);
+    expect(started).toHaveLength(1);
+  });
+
+  it('rejects when a task throws', async () => {
+    const scan = scheduleByHost(
+      ['https://a.com/'],
+      async () => {
+        throw new Error('boom');
+      },
+      () => {},
+      FAST
+    );
+    await expect(scan).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,174 @@
+export interface SchedulerOptions {
+  // Checks running at once across all hosts
+  concurrency: number;
+  // Checks running at once against a single host
+  perHostConcurrency: number;
+  // Minimum gap between starting two checks on the same host
+  perHostDelayMs: number;
+  // Extra attempts for a check that failed transiently
+  maxRetries: number;
+  // First retry waits this long, doubling on each further attempt
+  retryBackoffMs: number;
+  // Retry-After values longer than this aren't waited for; the check is reported as-is
+  maxRetryDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 10,
+  perHostConcurrency: 2,
+  perHostDelayMs: 250,
+  maxRetries: 2,
+  retryBackoffMs: 500,
+  maxRetryDelayMs: 10000,
+};
+
+// What a task reports back: its result, and whether it's worth trying again
+export interface TaskOutcome<T> {
+  result: T;
+  retry?: { afterMs?: number };
+}
+
+interface Job {
+  index: number;
+  url: string;
+  host: string;
+  attempt: number;
+  notBefore: number;
+}
+
+interface HostState {
+  active: number;
+  nextStart: number;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+// Run a task for every URL with a sliding worker pool: a new task starts as soon as any finishes,
+// as long as its host is under the per-host limit and past its politeness delay or Retry-After.
+// Aborting `signal` stops queued tasks from starting and rejects with the abort reason.
+export function scheduleByHost<T>(
+  urls: string[],
+  run: (url: string) => Promise<TaskOutcome<T>>,
+  onDone: (index: number, result: T) => void,
+  options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS,
+  signal?: AbortSignal
+): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const results: T[] = new Array(urls.length);
+    const queue: Job[] = urls.map((url, index) => ({ index, url, host: hostOf(url), attempt: 0, notBefore: 0 }));
+    const hosts = new Map<string, HostState>();
+    let active = 0;
+    let remaining = urls.length;
+    let failed = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const hostState = (host: string): HostState => {
+      let state = hosts.get(host);
+      if (!state) {
+        state = { active: 0, nextStart: 0 };
+        hosts.set(host, state);
+      }
+      return state;
+    };
+
+    const start = (job: Job) => {
+      const host = hostState(job.host);
+      active++;
+      host.active++;
+      host.nextStart = Date.now() + options.perHostDelayMs;
+
+      run(job.url).then(
+        outcome => {
+          if (failed) return;
+          active--;
+          host.active--;
+
+          if (outcome.retry && job.attempt < options.maxRetries) {
+            const backoff = options.retryBackoffMs * 2 ** job.attempt * (1 + Math.random() * 0.2);
+            const delay = outcome.retry.afterMs ?? backoff;
+
+            if (delay <= options.maxRetryDelayMs) {
+              job.attempt++;
+              job.notBefore = Date.now() + delay;
+              // Retry-After speaks for the whole host, not just this URL
+              if (outcome.retry.afterMs !== undefined) {
+                host.nextStart = Math.max(host.nextStart, job.notBefore);
+              }
+              queue.push(job);
+              pump();
+              return;
+            }
+          }
+
+          results[job.index] = outcome.result;
+          remaining--;
+          onDone(job.index, outcome.result);
+          pump();
+        },
+        error => {
+          failed = true;
+          if (timer) clearTimeout(timer);
+          reject(error);
+        }
+      );
+    };
+
+    const pump = () => {
+      if (failed) return;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (remaining === 0) {
+        signal?.removeEventListener('abort', abort);
+        resolve(results);
+        return;
+      }
+
+      const now = Date.now();
+      let wakeAt = Infinity;
+
+      for (let i = 0; i < queue.length && active < options.concurrency; ) {
+        const job = queue[i];
+        const host = hostState(job.host);
+        const readyAt = Math.max(job.notBefore, host.nextStart);
+
+        if (host.active >= options.perHostConcurrency) {
+          i++;
+        } else if (readyAt > now) {
+          wakeAt = Math.min(wakeAt, readyAt);
+          i++;
+        } else {
+          queue.splice(i, 1);
+          start(job);
+        }
+      }
+
+      // Nothing else will call pump() while every queued job is waiting on a delay
+      if (wakeAt !== Infinity && active < options.concurrency) {
+        timer = setTimeout(pump, wakeAt - now);
+      }
+    };
+
+    const abort = () => {
+      if (failed) return;
+      failed = true;
+      if (timer) clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('The scan was cancelled', 'AbortError'));
+    };
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+
+    pump();
+  });
+}
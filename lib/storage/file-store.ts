@@ -0,0 +1,149 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { readdir, unlink } from 'fs/promises';
+import path from 'path';
+import type { Monitor } from '../monitor/types';
+import { readJson, updateJson, writeJson } from './json-file';
+import type { MonitorStore, ReportStore, SavedScan, SavedScanSummary, ScanStore, SharedReport } from './types';
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Report ids end up in links people paste around, so they are short: 9 random bytes as base64url
+const REPORT_ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+// Stores each scan as a JSON file, plus one index file per bio page URL listing its scans
+export class FileScanStore implements ScanStore {
+  constructor(private readonly directory: string) {}
+
+  async save(url: string, result: SavedScan['result'], owner?: string): Promise<SavedScan> {
+    const scan: SavedScan = { id: randomUUID(), url, createdAt: new Date().toISOString(), owner, result };
+    const { links, ...counts } = result;
+    const summary: SavedScanSummary = { id: scan.id, url, createdAt: scan.createdAt, owner, ...counts };
+
+    await writeJson(this.scanPath(scan.id), scan);
+    await updateJson<SavedScanSummary[]>(this.indexPath(url), index => [summary, ...(index ?? [])]);
+
+    return scan;
+  }
+
+  async list(url: string, owner?: string): Promise<SavedScanSummary[]> {
+    const index = (await readJson<SavedScanSummary[]>(this.indexPath(url))) ?? [];
+    return index.filter(scan => scan.owner === owner);
+  }
+
+  async get(id: string): Promise<SavedScan | null> {
+    if (!ID_PATTERN.test(id)) {
+      return null;
+    }
+    return readJson<SavedScan>(this.scanPath(id));
+  }
+
+  private scanPath(id: string): string {
+    return path.join(this.directory, 'scans', `${id}.json`);
+  }
+
+  private indexPath(url: string): string {
+    const key = createHash('sha256').update(url).digest('hex');
+    return path.join(this.directory, 'pages', `${key}.json`);
+  }
+}
+
+// Keeps every monitor in a single JSON file; there are few enough of them to rewrite it on each change
+export class FileMonitorStore implements MonitorStore {
+  private readonly file: string;
+
+  constructor(directory: string) {
+    this.file = path.join(directory, 'monitors.json');
+  }
+
+  async list(): Promise<Monitor[]> {
+    return (await readJson<Monitor[]>(this.file)) ?? [];
+  }
+
+  async get(id: string): Promise<Monitor | null> {
+    return (await this.list()).find(monitor => monitor.id === id) ?? null;
+  }
+
+  async save(monitor: Monitor): Promise<void> {
+    await updateJson<Monitor[]>(this.file, monitors => {
+      const list = monitors ?? [];
+      const index = list.findIndex(existing => existing.id === monitor.id);
+      return index === -1 ? [...list, monitor] : list.map((existing, i) => (i === index ? monitor : existing));
+    });
+  }
+
+  async update(monitor: Monitor): Promise<boolean> {
+    let found = false;
+    await updateJson<Monitor[]>(this.file, monitors => {
+      found = (monitors ?? []).some(existing => existing.id === monitor.id);
+      return found && monitors ? monitors.map(existing => (existing.id === monitor.id ? monitor : existing)) : null;
+    });
+    return found;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let found = false;
+    await updateJson<Monitor[]>(this.file, monitors => {
+      const remaining = (monitors ?? []).filter(monitor => monitor.id !== id);
+      found = remaining.length !== (monitors ?? []).length;
+      return found ? remaining : null;
+    });
+    return found;
+  }
+}
+
+// Stores each shared report as a JSON file, deleting it the first time it is read after expiring
+export class FileReportStore implements ReportStore {
+  constructor(private readonly directory: string) {}
+
+  async save(result: SharedReport['result'], url?: string, expiresAt?: string): Promise<SharedReport> {
+    const report: SharedReport = { id: randomBytes(9).toString('base64url'), url, createdAt: new Date().toISOString(), expiresAt, result };
+    await writeJson(this.reportPath(report.id), report);
+    return report;
+  }
+
+  async get(id: string): Promise<SharedReport | null> {
+    if (!REPORT_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    const report = await readJson<SharedReport>(this.reportPath(id));
+    if (report?.expiresAt && Date.parse(report.expiresAt) <= Date.now()) {
+      await unlink(this.reportPath(id)).catch(() => undefined);
+      return null;
+    }
+    return report;
+  }
+
+  async count(): Promise<number> {
+    return (await this.reportIds()).length;
+  }
+
+  async deleteExpired(): Promise<number> {
+    let deleted = 0;
+    for (const id of await this.reportIds()) {
+      const report = await readJson<SharedReport>(this.reportPath(id));
+      if (report?.expiresAt && Date.parse(report.expiresAt) <= Date.now()) {
+        await unlink(this.reportPath(id)).catch(() => undefined);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Ids of the stored reports, skipping temporary files left by writes in progress
+  private async reportIds(): Promise<string[]> {
+    try {
+      const files = await readdir(path.join(this.directory, 'reports'));
+      return files.map(file => file.replace(/\.json$/, '')).filter(id => REPORT_ID_PATTERN.test(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private reportPath(id: string): string {
+    return path.join(this.directory, 'reports', `${id}.json`);
+  }
+}
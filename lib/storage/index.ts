@@ -0,0 +1,66 @@
+import path from 'path';
+import { FileMonitorStore, FileReportStore, FileScanStore } from './file-store';
+import type { ScanResult } from '../types';
+import type { MonitorStore, ReportStore, ScanStore } from './types';
+
+export type { MonitorStore, ReportStore, SavedScan, SavedScanSummary, ScanStore, SharedReport } from './types';
+
+let scanStore: ScanStore | null = null;
+let monitorStore: MonitorStore | null = null;
+let reportStore: ReportStore | null = null;
+let reportSweeper: ReturnType<typeof setInterval> | null = null;
+
+// How often expired shared reports are deleted, since nobody may ever open them again
+const REPORT_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Where everything ClearOut keeps on disk lives; CLEAROUT_DATA_DIR overrides it
+export function getDataDirectory(): string {
+  return process.env.CLEAROUT_DATA_DIR ?? path.join(process.cwd(), '.data');
+}
+
+// Scans are only stored when a request opts in
+export function getScanStore(): ScanStore {
+  if (!scanStore) {
+    scanStore = new FileScanStore(getDataDirectory());
+  }
+  return scanStore;
+}
+
+export function getMonitorStore(): MonitorStore {
+  if (!monitorStore) {
+    monitorStore = new FileMonitorStore(getDataDirectory());
+  }
+  return monitorStore;
+}
+
+export function getReportStore(): ReportStore {
+  if (!reportStore) {
+    reportStore = new FileReportStore(getDataDirectory());
+  }
+  return reportStore;
+}
+
+// Delete expired shared reports in the background of a long-running server
+export function startReportSweeper(): void {
+  if (reportSweeper) return;
+
+  const sweep = () => {
+    getReportStore()
+      .deleteExpired()
+      .catch(error => console.error('Error deleting expired reports:', error));
+  };
+  sweep();
+  reportSweeper = setInterval(sweep, REPORT_SWEEP_INTERVAL_MS);
+  reportSweeper.unref?.();
+}
+
+// Save a scan to history for a request that opted in, returning its id. A failing store
+// shouldn't fail the scan itself, so errors are logged instead of thrown.
+export async function saveToHistory(url: string, result: ScanResult): Promise<string | undefined> {
+  try {
+    return (await getScanStore().save(url, result)).id;
+  } catch (error) {
+    console.error('Error saving scan:', error);
+    return undefined;
+  }
+}
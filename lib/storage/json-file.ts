@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+// The last queued operation on each file; later ones wait for it so read-modify-write cycles don't interleave
+const fileLocks = new Map<string, Promise<unknown>>();
+
+// Run `task` once every earlier task on the same file has finished. This only serializes writers within
+// this process, which is the only writer the file stores expect.
+function withFileLock<T>(file: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(file) ?? Promise.resolve();
+  const result = previous.then(task, task);
+  const settled = result.catch(() => undefined);
+  fileLocks.set(file, settled);
+  settled.then(() => {
+    if (fileLocks.get(file) === settled) {
+      fileLocks.delete(file);
+    }
+  });
+  return result;
+}
+
+// Read a JSON file, treating a missing file as empty
+export async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Write through a uniquely named temporary file so a crash never leaves half-written JSON behind and
+// concurrent writers never rename each other's files
+async function replaceJson(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${randomUUID()}.tmp`;
+  await writeFile(tempFile, JSON.stringify(value));
+  await rename(tempFile, file);
+}
+
+export function writeJson(file: string, value: unknown): Promise<void> {
+  return withFileLock(file, () => replaceJson(file, value));
+}
+
+// Read, change and write a JSON file as one step with respect to other writes to it. Returning null
+// from `update` leaves the file as it is.
+export function updateJson<T>(file: string, update: (current: T | null) => T | null): Promise<void> {
+  return withFileLock(file, async () => {
+    const value = update(await readJson<T>(file));
+    if (value !== null) {
+      await replaceJson(file, value);
+    }
+  });
+}
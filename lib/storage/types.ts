@@ -0,0 +1,56 @@
+import type { Monitor } from '../monitor/types';
+import type { LinkCounts, ScanResult } from '../types';
+
+export interface SavedScan {
+  id: string;
+  url: string;
+  createdAt: string;
+  // API key that created the scan; scans from the web UI have none
+  owner?: string;
+  result: ScanResult;
+}
+
+// What history listings show without loading every link
+export interface SavedScanSummary extends LinkCounts {
+  id: string;
+  url: string;
+  createdAt: string;
+  owner?: string;
+}
+
+// A scan result published at /report/[id] for anyone with the link
+export interface SharedReport {
+  id: string;
+  // The page that was scanned, when there was one
+  url?: string;
+  createdAt: string;
+  expiresAt?: string;
+  result: ScanResult;
+}
+
+export interface ScanStore {
+  save(url: string, result: ScanResult, owner?: string): Promise<SavedScan>;
+  // Saved scans for a bio page belonging to `owner` (or to no one), newest first
+  list(url: string, owner?: string): Promise<SavedScanSummary[]>;
+  get(id: string): Promise<SavedScan | null>;
+}
+
+export interface MonitorStore {
+  list(): Promise<Monitor[]>;
+  get(id: string): Promise<Monitor | null>;
+  // Insert or replace by id
+  save(monitor: Monitor): Promise<void>;
+  // Replace by id, unless it has been deleted in the meantime; returns whether it was still there
+  update(monitor: Monitor): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface ReportStore {
+  save(result: ScanResult, url?: string, expiresAt?: string): Promise<SharedReport>;
+  // Expired reports are gone
+  get(id: string): Promise<SharedReport | null>;
+  // Reports on disk, expired ones included until they are deleted
+  count(): Promise<number>;
+  // Delete every expired report, returning how many there were
+  deleteExpired(): Promise<number>;
+}
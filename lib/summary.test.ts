@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeBatch } from './summary';
+import type { ExtractedLink } from './extractors/types';
+import type { LinkCheck } from './types';
+
+function check(url: string, contentType: string): LinkCheck {
+  return {
+    originalUrl: url,
+    finalUrl: url,
+    status: 200,
+    statusText: 'OK',
+    isWorking: true,
+    isRedirect: false,
+    responseTime: 80,
+    classification: 'working',
+    redirectChain: [],
+    method: 'HEAD',
+    contentType,
+  };
+}
+
+function link(url: string, kind: ExtractedLink['kind'] = 'link'): ExtractedLink {
+  return { url, kind, position: 0, occurrences: 1 };
+}
+
+describe('summarizeBatch', () => {
+  it('counts links reclassified by content type in the batch totals, once per URL', () => {
+    const checks = new Map<string, LinkCheck>([
+      ['https://example.com/', check('https://example.com/', 'text/html')],
+      ['https://example.com/avatar.png', check('https://example.com/avatar.png', 'text/html')],
+    ]);
+    const pages = [
+      { url: 'https://a.example/', links: [link('https://example.com/'), link('https://example.com/avatar.png', 'image')] },
+      { url: 'https://b.example/', links: [link('https://example.com/avatar.png', 'image')] },
+    ];
+
+    const batch = summarizeBatch(pages, checks);
+
+    expect(batch.pages.map(page => page.suspectedBroken)).toEqual([1, 1]);
+    expect(batch.totalLinks).toBe(2);
+    expect(batch.workingLinks).toBe(1);
+    expect(batch.suspectedBroken).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+import type { ExtractedLink } from './extractors/types';
+import { healthScore } from './grading';
+import { contentTypeProblem } from './resources';
+import type { BatchPage, BatchScanResult, LinkCheck, LinkCounts, LinkResult, PageScanResult, ScanResult } from './types';
+
+// Blocked and rate-limited links failed for reasons that say nothing about the link itself
+export function isBroken(link: LinkCheck): boolean {
+  return !link.isWorking && link.classification !== 'blocked' && link.classification !== 'rate-limited';
+}
+
+// Helper function to calculate statistics
+export function countLinks(links: LinkCheck[]): LinkCounts {
+  const brokenByKind: LinkCounts['brokenByKind'] = {};
+  const flagsByKind: LinkCounts['flagsByKind'] = {};
+  const healthByKind: LinkCounts['healthByKind'] = {};
+  for (const link of links) {
+    if (isBroken(link) && link.errorKind) {
+      brokenByKind[link.errorKind] = (brokenByKind[link.errorKind] ?? 0) + 1;
+    }
+    for (const { flag } of link.safety ?? []) {
+      flagsByKind[flag] = (flagsByKind[flag] ?? 0) + 1;
+    }
+    for (const { kind } of link.health ?? []) {
+      healthByKind[kind] = (healthByKind[kind] ?? 0) + 1;
+    }
+  }
+
+  return {
+    totalLinks: links.length,
+    workingLinks: links.filter(link => link.classification === 'working').length,
+    brokenLinks: links.filter(link => isBroken(link)).length,
+    suspectedBroken: links.filter(link => link.classification === 'suspected-broken').length,
+    blockedLinks: links.filter(link => link.classification === 'blocked').length,
+    rateLimited: links.filter(link => link.classification === 'rate-limited').length,
+    redirects: links.filter(link => link.classification === 'redirect').length,
+    brokenByKind,
+    flaggedLinks: links.filter(link => link.safety && link.safety.length > 0).length,
+    flagsByKind,
+    healthScore: healthScore(links),
+    healthByKind,
+  };
+}
+
+export function summarize(links: LinkResult[]): ScanResult {
+  return { ...countLinks(links), links };
+}
+
+// Attach what extraction found about a link to the result of checking its URL. A resource that loads
+// but is the wrong type (an og:image serving an HTML page) is reported as suspected broken.
+export function toLinkResult(check: LinkCheck, link: ExtractedLink): LinkResult {
+  const { url, ...details } = link;
+  const result: LinkResult = { ...check, ...details, originalUrl: url };
+
+  const problem = check.isWorking && !check.soft404Reason ? contentTypeProblem(link.kind, check.contentType) : undefined;
+  return problem ? { ...result, classification: 'suspected-broken', soft404Reason: problem } : result;
+}
+
+// Build per-page results and the aggregate from the checks done so far; unchecked links are left out
+export function summarizeBatch(pages: BatchPage[], checks: Map<string, LinkCheck>): BatchScanResult {
+  const pageResults: PageScanResult[] = pages.map(page => {
+    const links = page.links.flatMap(link => {
+      const check = checks.get(link.url);
+      return check ? [toLinkResult(check, link)] : [];
+    });
+    return { url: page.url, error: page.error, ...summarize(links) };
+  });
+
+  // The totals count each unique URL once, as the first page linking to it saw it, so links toLinkResult
+  // reclassified (an image URL serving HTML) count the same as in the page totals
+  const uniqueLinks = new Map<string, LinkResult>();
+  pageResults.forEach(page => {
+    page.links.forEach(link => {
+      if (!uniqueLinks.has(link.originalUrl)) uniqueLinks.set(link.originalUrl, link);
+    });
+  });
+
+  return {
+    ...countLinks(Array.from(uniqueLinks.values())),
+    totalPages: pages.length,
+    failedPages: pages.filter(page => page.error).length,
+    pageLinks: pages.reduce((total, page) => total + page.links.length, 0),
+    pages: pageResults,
+  };
+}
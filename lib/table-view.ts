@@ -0,0 +1,158 @@
+import { ERROR_KINDS, type ErrorKind } from './errors';
+import { RESOURCE_KINDS, type ResourceKind } from './resources';
+import { isBroken } from './summary';
+import type { LinkClassification, LinkResult } from './types';
+
+export type StatusFilter = 'working' | 'redirect' | 'suspected' | 'broken' | 'unverified';
+export type SortKey = 'position' | 'status' | 'url' | 'finalUrl' | 'httpStatus' | 'responseTime';
+export type SortDirection = 'asc' | 'desc';
+
+// How the results table is filtered, sorted and paged; kept in the query string so a view can be shared
+export interface TableView {
+  status?: StatusFilter;
+  errorKind?: ErrorKind;
+  kind?: ResourceKind;
+  domain?: string;
+  search: string;
+  sort: SortKey;
+  direction: SortDirection;
+  groupByDomain: boolean;
+  page: number;
+}
+
+export const DEFAULT_TABLE_VIEW: TableView = {
+  search: '',
+  sort: 'position',
+  direction: 'asc',
+  groupByDomain: false,
+  page: 1,
+};
+
+export const TABLE_PAGE_SIZE = 50;
+
+export const STATUS_FILTERS: Record<StatusFilter, { label: string; matches: (link: LinkResult) => boolean }> = {
+  working: { label: 'Working', matches: link => link.classification === 'working' },
+  redirect: { label: 'Redirect', matches: link => link.classification === 'redirect' },
+  suspected: { label: 'Suspected', matches: link => link.classification === 'suspected-broken' },
+  broken: { label: 'Broken', matches: link => isBroken(link) },
+  unverified: { label: 'Unverified', matches: link => link.classification === 'rate-limited' || link.classification === 'blocked' },
+};
+
+const SORT_KEYS: SortKey[] = ['position', 'status', 'url', 'finalUrl', 'httpStatus', 'responseTime'];
+
+// Worst first when sorting by status
+const CLASSIFICATION_ORDER: LinkClassification[] = [
+  'broken',
+  'redirect-loop',
+  'too-many-redirects',
+  'suspected-broken',
+  'blocked',
+  'rate-limited',
+  'redirect',
+  'working',
+];
+
+// Helper function to group links by site, ignoring a leading www.
+export function linkDomain(link: LinkResult): string {
+  try {
+    return new URL(link.originalUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return link.originalUrl;
+  }
+}
+
+function isKeyOf<T extends string>(record: Record<T, unknown>, value: string | null): value is T {
+  return value !== null && Object.prototype.hasOwnProperty.call(record, value);
+}
+
+// Read a view from the query string, ignoring anything that isn't a valid value
+export function parseTableView(params: URLSearchParams): TableView {
+  const status = params.get('status');
+  const errorKind = params.get('error');
+  const kind = params.get('kind');
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+
+  return {
+    status: isKeyOf(STATUS_FILTERS, status) ? status : undefined,
+    errorKind: isKeyOf(ERROR_KINDS, errorKind) ? errorKind : undefined,
+    kind: isKeyOf(RESOURCE_KINDS, kind) ? kind : undefined,
+    domain: params.get('domain') || undefined,
+    search: params.get('q') ?? '',
+    sort: SORT_KEYS.includes(sort as SortKey) ? (sort as SortKey) : DEFAULT_TABLE_VIEW.sort,
+    direction: params.get('dir') === 'desc' ? 'desc' : 'asc',
+    groupByDomain: params.get('group') === 'domain',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+// Write a view into the query string, leaving out defaults and any parameters that belong to someone else
+export function writeTableView(view: TableView, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params.toString());
+  const values: Record<string, string | undefined> = {
+    status: view.status,
+    error: view.errorKind,
+    kind: view.kind,
+    domain: view.domain,
+    q: view.search || undefined,
+    sort: view.sort !== DEFAULT_TABLE_VIEW.sort ? view.sort : undefined,
+    dir: view.direction !== DEFAULT_TABLE_VIEW.direction ? view.direction : undefined,
+    group: view.groupByDomain ? 'domain' : undefined,
+    page: view.page > 1 ? String(view.page) : undefined,
+  };
+
+  Object.keys(values).forEach(key => {
+    const value = values[key];
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  });
+  return next;
+}
+
+function compareLinks(a: LinkResult, b: LinkResult, sort: SortKey): number {
+  switch (sort) {
+    case 'status':
+      return CLASSIFICATION_ORDER.indexOf(a.classification) - CLASSIFICATION_ORDER.indexOf(b.classification);
+    case 'url':
+      return a.originalUrl.localeCompare(b.originalUrl);
+    case 'finalUrl':
+      return a.finalUrl.localeCompare(b.finalUrl);
+    case 'httpStatus':
+      return a.status - b.status;
+    case 'responseTime':
+      return a.responseTime - b.responseTime;
+    default:
+      return a.position - b.position;
+  }
+}
+
+// Filter, search and sort the links. When grouping, links of the same domain end up next to each other,
+// domains in alphabetical order and the chosen sort within each.
+export function applyTableView(links: LinkResult[], view: TableView): LinkResult[] {
+  const search = view.search.trim().toLowerCase();
+  const direction = view.direction === 'desc' ? -1 : 1;
+
+  return links
+    .filter(link => {
+      if (view.status && !STATUS_FILTERS[view.status].matches(link)) return false;
+      if (view.errorKind && link.errorKind !== view.errorKind) return false;
+      if (view.kind && link.kind !== view.kind) return false;
+      if (view.domain && linkDomain(link) !== view.domain) return false;
+      if (!search) return true;
+
+      return [link.originalUrl, link.finalUrl, link.label ?? '', ...(link.variants ?? [])].some(text =>
+        text.toLowerCase().includes(search)
+      );
+    })
+    .sort((a, b) => {
+      if (view.groupByDomain) {
+        const byDomain = linkDomain(a).localeCompare(linkDomain(b));
+        if (byDomain !== 0) return byDomain;
+      }
+      // Ties keep page order, whichever direction
+      return compareLinks(a, b, view.sort) * direction || a.position - b.position;
+    });
+}
@@ -0,0 +1,136 @@
+import { isIP } from 'net';
+import { connect } from 'tls';
+import { guardedLookup } from './safe-fetch';
+
+export interface TlsDetails {
+  // Negotiated through ALPN, which is what a browser would get
+  httpVersion: 'HTTP/2' | 'HTTP/1.1';
+  certificateExpiresAt?: string;
+}
+
+// A probe per host is enough; results are reused this long, and for at most this many hosts
+const CACHE_MS = 10 * 60 * 1000;
+const MAX_CACHED_HOSTS = 1000;
+
+const PROBE_TIMEOUT_MS = 5000;
+
+interface CachedProbe {
+  details: Promise<TlsDetails | undefined>;
+  probedAt: number;
+  // Checks still waiting on a probe in flight; when the last one gives up, so does the probe
+  waiting: number;
+  settled: boolean;
+  cancel: () => void;
+}
+
+// In least-recently-used order, oldest first
+const cache = new Map<string, CachedProbe>();
+
+function probe(hostname: string, port: number, signal: AbortSignal): Promise<TlsDetails | undefined> {
+  return new Promise(resolve => {
+    const socket = connect({
+      host: hostname,
+      port,
+      // SNI only takes names
+      servername: isIP(hostname) ? undefined : hostname,
+      ALPNProtocols: ['h2', 'http/1.1'],
+      // Resolved the same guarded way as the link check, so the probe can't be pointed at an internal host
+      lookup: guardedLookup,
+      // Only the certificate's dates are read; whether it is trusted was already settled by the link check
+      rejectUnauthorized: false,
+    });
+
+    const finish = (details: TlsDetails | undefined) => {
+      signal.removeEventListener('abort', abort);
+      socket.destroy();
+      resolve(details);
+    };
+    const abort = () => finish(undefined);
+
+    signal.addEventListener('abort', abort, { once: true });
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => finish(undefined));
+    socket.once('error', () => finish(undefined));
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      const expiresAt = certificate?.valid_to ? new Date(certificate.valid_to) : undefined;
+      finish({
+        httpVersion: socket.alpnProtocol === 'h2' ? 'HTTP/2' : 'HTTP/1.1',
+        certificateExpiresAt: expiresAt && !Number.isNaN(expiresAt.getTime()) ? expiresAt.toISOString() : undefined,
+      });
+    });
+  });
+}
+
+// The cached probe for a host, starting one when there is none. Failed probes are dropped so the next
+// check tries again, and the least recently used host goes once the cache is full.
+function cachedProbe(key: string, hostname: string, port: number): CachedProbe {
+  const cached = cache.get(key);
+  cache.delete(key);
+  if (cached && Date.now() - cached.probedAt < CACHE_MS) {
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const controller = new AbortController();
+  const entry: CachedProbe = {
+    details: probe(hostname, port, controller.signal),
+    probedAt: Date.now(),
+    waiting: 0,
+    settled: false,
+    cancel: () => controller.abort(),
+  };
+  entry.details.then(details => {
+    entry.settled = true;
+    if (!details && cache.get(key) === entry) {
+      cache.delete(key);
+    }
+  });
+
+  cache.set(key, entry);
+  if (cache.size > MAX_CACHED_HOSTS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return entry;
+}
+
+// Look up the HTTP version and certificate expiry of the https host serving a URL. Plain http has no
+// certificate and always speaks HTTP/1.1 without ALPN; a failed probe returns undefined, and so does one
+// whose link check is aborted or runs out of time first.
+export function probeTls(url: string, signal?: AbortSignal): Promise<TlsDetails | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return Promise.resolve(undefined);
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return Promise.resolve(parsed.protocol === 'http:' ? { httpVersion: 'HTTP/1.1' } : undefined);
+  }
+  if (signal?.aborted) {
+    return Promise.resolve(undefined);
+  }
+
+  const entry = cachedProbe(parsed.host, parsed.hostname.replace(/^\[|\]$/g, ''), Number(parsed.port) || 443);
+  if (entry.settled) {
+    return entry.details;
+  }
+
+  entry.waiting++;
+  return new Promise(resolve => {
+    const abort = () => {
+      entry.waiting--;
+      if (entry.waiting === 0) {
+        entry.cancel();
+      }
+      resolve(undefined);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+    entry.details.then(details => {
+      if (signal?.aborted) return;
+      signal?.removeEventListener('abort', abort);
+      entry.waiting--;
+      resolve(details);
+    });
+  });
+}
@@ -0,0 +1,128 @@
+import type { ErrorKind } from './errors';
+import type { ExtractedLink } from './extractors/types';
+import type { HealthIssue, HealthIssueKind } from './grading';
+import type { ResourceKind } from './resources';
+import type { SafetyFlag, SafetyIssue } from './safety/flags';
+
+export type LinkClassification =
+  | 'working'
+  | 'redirect'
+  | 'suspected-broken'
+  | 'broken'
+  | 'redirect-loop'
+  | 'too-many-redirects'
+  | 'rate-limited'
+  | 'blocked';
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string | null;
+}
+
+// Milliseconds spent on a check: following redirects, waiting for the final response's headers, and overall
+export interface LinkTiming {
+  redirects: number;
+  firstByte: number;
+  total: number;
+}
+
+// Result of checking one link, merged with what extraction found out about it
+export interface LinkResult {
+  originalUrl: string;
+  finalUrl: string;
+  status: number;
+  statusText: string;
+  isWorking: boolean;
+  isRedirect: boolean;
+  responseTime: number;
+  classification: LinkClassification;
+  redirectChain: RedirectHop[];
+  method: 'HEAD' | 'GET';
+  soft404Reason?: string;
+  // Seconds the host asked us to wait (Retry-After on 429/503)
+  retryAfter?: number;
+  // System error code (ECONNRESET, ENOTFOUND, ...) when the request failed outright
+  errorCode?: string;
+  // Why the link failed, for every link that isn't working
+  errorKind?: ErrorKind;
+  // Content-Type of the final response
+  contentType?: string;
+  // Size of the final response in bytes, when the server said
+  contentLength?: number;
+  timing?: LinkTiming;
+  // HTTP version the final host negotiates, and when its TLS certificate expires
+  httpVersion?: string;
+  certificateExpiresAt?: string;
+  // Speed and certificate warnings for links that work
+  health?: HealthIssue[];
+  // Blocklist and mixed-content findings, whatever the link's status
+  safety?: SafetyIssue[];
+  label?: string;
+  anchorText?: string;
+  title?: string;
+  ariaLabel?: string;
+  rel?: string[];
+  position: number;
+  occurrences: number;
+  kind: ResourceKind;
+  foundOn?: string[];
+  variants?: string[];
+}
+
+// What checking a URL finds out on its own, before it is matched back to where it appeared
+export type LinkCheck = Omit<LinkResult, keyof Omit<ExtractedLink, 'url'>>;
+
+export interface LinkCounts {
+  totalLinks: number;
+  workingLinks: number;
+  brokenLinks: number;
+  suspectedBroken: number;
+  blockedLinks: number;
+  rateLimited: number;
+  redirects: number;
+  brokenByKind: Partial<Record<ErrorKind, number>>;
+  // Links with at least one safety issue, and how often each flag was raised
+  flaggedLinks: number;
+  flagsByKind: Partial<Record<SafetyFlag, number>>;
+  // 0 to 100, see healthScore
+  healthScore: number;
+  healthByKind: Partial<Record<HealthIssueKind, number>>;
+}
+
+export interface ScanResult extends LinkCounts {
+  links: LinkResult[];
+}
+
+// A bio page in a batch scan, with the links extracted from it or the reason it couldn't be fetched
+export interface BatchPage {
+  url: string;
+  links: ExtractedLink[];
+  error?: string;
+}
+
+export interface PageScanResult extends ScanResult {
+  url: string;
+  error?: string;
+}
+
+// Aggregate counts are over unique links, since a URL shared across pages is only checked once
+export interface BatchScanResult extends LinkCounts {
+  totalPages: number;
+  failedPages: number;
+  pageLinks: number;
+  pages: PageScanResult[];
+}
+
+// Events written to the response body when streaming is requested (one JSON object per line)
+export type ScanEvent =
+  | { type: 'start'; totalLinks: number }
+  | { type: 'link'; index: number; link: LinkResult }
+  | { type: 'summary'; result: ScanResult; savedScanId?: string }
+  | { type: 'error'; error: string };
+
+export type BatchScanEvent =
+  | { type: 'start'; pages: BatchPage[]; totalLinks: number }
+  | { type: 'check'; url: string; check: LinkCheck }
+  | { type: 'summary'; result: BatchScanResult }
+  | { type: 'error'; error: string };
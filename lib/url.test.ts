@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, DEFAULT_CANONICAL_RULES } from './url';
+
+describe('canonicalizeUrl', () => {
+  it('drops fragments and tracking parameters but keeps the rest of the query as written', () => {
+    expect(canonicalizeUrl('https://shop.com/item?id=1&utm_source=ig&fbclid=abc&q=a%20b#reviews')).toBe(
+      'https://shop.com/item?id=1&q=a%20b'
+    );
+  });
+
+  it('matches tracking parameters case-insensitively and when percent-encoded', () => {
+    expect(canonicalizeUrl('https://shop.com/?UTM_Campaign=x&%67clid=y&keep=1')).toBe('https://shop.com/?keep=1');
+  });
+
+  it('removes the query entirely when only tracking parameters were present', () => {
+    expect(canonicalizeUrl('https://shop.com/page?utm_medium=social')).toBe('https://shop.com/page');
+  });
+
+  it('strips trailing slashes except on the root path', () => {
+    expect(canonicalizeUrl('https://site.com/about//')).toBe('https://site.com/about');
+    expect(canonicalizeUrl('https://site.com/')).toBe('https://site.com/');
+  });
+
+  it('lowercases hostnames and converts internationalized names to punycode', () => {
+    expect(canonicalizeUrl('https://EXAMPLE.com/Path')).toBe('https://example.com/Path');
+    expect(canonicalizeUrl('https://bücher.de/')).toBe('https://xn--bcher-kva.de/');
+  });
+
+  it('applies only the rules that are turned on', () => {
+    const rules = { ...DEFAULT_CANONICAL_RULES, stripFragment: false, stripTrailingSlash: false, sortQueryParams: true };
+    expect(canonicalizeUrl('https://site.com/a/?b=2&a=1&utm_source=x#top', rules)).toBe('https://site.com/a/?a=1&b=2#top');
+    expect(canonicalizeUrl('https://site.com/?utm_source=x', { ...rules, stripTrackingParams: false })).toBe(
+      'https://site.com/?utm_source=x'
+    );
+  });
+
+  it('leaves non-http and unparseable URLs untouched', () => {
+    expect(canonicalizeUrl('mailto:Me@Example.com?utm_source=x')).toBe('mailto:Me@Example.com?utm_source=x');
+    expect(canonicalizeUrl('not a url/')).toBe('not a url/');
+  });
+});
@@ -0,0 +1,135 @@
+// Helper function to check if URL is valid
+export function isValidUrl(string: string): boolean {
+  try {
+    new URL(string);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+// Helper function to resolve a link against the page it appears on. Without a base only absolute
+// URLs resolve; anything else is returned unchanged and fails isValidUrl.
+export function normalizeUrl(url: string, baseUrl?: string): string {
+  try {
+    return new URL(url.trim(), baseUrl).href;
+  } catch {
+    return url;
+  }
+}
+
+export interface CanonicalRules {
+  // Drop #fragments, which never reach the server
+  stripFragment: boolean;
+  // Drop the query parameters listed in trackingParams
+  stripTrackingParams: boolean;
+  // Parameter names that only feed analytics; a trailing * matches any name with that prefix
+  trackingParams: string[];
+  // Treat /path/ and /path as the same page; the root path is left alone
+  stripTrailingSlash: boolean;
+  // Sort the remaining query parameters so ?a=1&b=2 and ?b=2&a=1 match
+  sortQueryParams: boolean;
+}
+
+export const DEFAULT_CANONICAL_RULES: CanonicalRules = {
+  stripFragment: true,
+  stripTrackingParams: true,
+  trackingParams: [
+    'utm_*',
+    'fbclid',
+    'gclid',
+    'dclid',
+    'gbraid',
+    'wbraid',
+    'msclkid',
+    'yclid',
+    'twclid',
+    'ttclid',
+    'igshid',
+    'mc_cid',
+    'mc_eid',
+    '_hsenc',
+    '_hsmi',
+  ],
+  stripTrailingSlash: true,
+  sortQueryParams: false,
+};
+
+function paramName(pair: string): string {
+  const name = pair.split('=')[0].replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function isTrackingParam(name: string, patterns: string[]): boolean {
+  const key = name.toLowerCase();
+  return patterns.some(pattern => (pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern));
+}
+
+// Reduce an absolute http(s) URL to the form used to tell whether two links point at the same page.
+// Hostnames always come out lowercased and with internationalized names in punycode (xn--...), since
+// that is how http(s) URLs are parsed; the rules cover the rest. Other URLs are returned unchanged.
+export function canonicalizeUrl(url: string, rules: CanonicalRules = DEFAULT_CANONICAL_RULES): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return url;
+  }
+
+  if (rules.stripFragment) {
+    parsed.hash = '';
+  }
+
+  // Work on the raw name=value pairs so the parameters that stay keep their exact encoding
+  const pairs = parsed.search.slice(1).split('&').filter(Boolean);
+  let kept = rules.stripTrackingParams ? pairs.filter(pair => !isTrackingParam(paramName(pair), rules.trackingParams)) : pairs;
+  if (rules.sortQueryParams) {
+    kept = kept.slice().sort();
+  }
+  parsed.search = kept.length > 0 ? '?' + kept.join('&') : '';
+
+  if (rules.stripTrailingSlash && parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+  }
+
+  return parsed.href;
+}
+
+// Helper function to check whether a hostname is a domain or one of its subdomains
+export function matchesHostname(hostname: string, domain: string): boolean {
+  const host = hostname.toLowerCase();
+  return host === domain || host.endsWith('.' + domain);
+}
+
+// Pull bio page URLs out of pasted text or an uploaded CSV/text file, one or more per line
+export function parseUrlList(text: string): string[] {
+  const urls: string[] = [];
+  const seen = new Set<string>();
+
+  for (const token of text.split(/[\s,;]+/)) {
+    const value = token.replace(/^["']+|["']+$/g, '').trim();
+    if (!value || !/^(https?:\/\/)?[^\s/]+\.[^\s]+$/i.test(value)) {
+      continue;
+    }
+
+    const url = /^https?:\/\//i.test(value) ? value : 'https://' + value;
+    if (isValidUrl(url) && !seen.has(url)) {
+      seen.add(url);
+      urls.push(url);
+    }
+  }
+
+  return urls;
+}
+
+// Helper function to build a Wayback Machine URL that opens the most recent snapshot of a page
+export function waybackUrl(url: string): string {
+  return `https://web.archive.org/web/${url}`;
+}
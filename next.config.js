@@ -1,4 +1,12 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Runs instrumentation.ts, which starts the background monitor loop
+    instrumentationHook: true,
+    // The connection guard in lib/safe-fetch.ts hands undici's Agent to Node's own fetch, so undici
+    // must be loaded from node_modules rather than bundled
+    serverComponentsExternalPackages: ['undici'],
+  },
+};
 
 module.exports = nextConfig;